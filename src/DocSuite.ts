@@ -1,18 +1,62 @@
 import fs from 'fs/promises'
+import os from 'os'
 import path from 'path'
 import mammoth from 'mammoth'
 import * as XLSX from 'xlsx'
-import PptxParser from 'node-pptx-parser'
-import { Poppler } from 'node-poppler'
-import sharp from 'sharp'
-import { randomBytes } from 'crypto'
+import { createHash, randomBytes } from 'crypto'
+import { execFile } from 'child_process'
+import { promisify } from 'util'
+import { Readable } from 'stream'
+import { ResultCache, resultCacheKey, secretDigest } from './cache'
+import { ChunkOptions, DocumentChunk, chunkResults } from './chunk'
+import { detectBufferFormat, detectFormat } from './detect'
+import { Email, EmailAttachment, emailText, parseEml, parseMsg } from './email'
+import { DocSuiteError, ErrorCode, WarningCode } from './errors'
+import { DocumentMetadata, parsePdfInfo, readEmailMetadata, readOfficeMetadata, readXlsMetadata } from './metadata'
+import { DocxBlock, readDocxStructure, renderDocxMarkdown } from './docx'
+import { ImageProcessingOptions, ProcessedImage, createImageDeduplicator, processImage } from './images'
+import { OcrEngine, resolveOcrEngine } from './ocr'
+import { decryptPackage, readEncryptedPackage } from './officecrypto'
+import { selectPages } from './pages'
+import {
+  BoundingBox,
+  PdfLayoutOptions,
+  PdfPageLayout,
+  layoutText,
+  markRunningBlocks,
+  pageLayout,
+  parseBboxLayout
+} from './pdflayout'
+import { PdfTableOptions, detectTables, withoutTables } from './pdftable'
+import { AbortablePoppler } from './poppler'
+import { ProgressCallback, ProgressEvent, progressEvents, startPage, trackRun } from './progress'
+import { mapWithConcurrency } from './pool'
+import { readPptxSlides } from './pptx'
+import { toCsv } from './format'
+import { fillMergedCells, recalculateWorkbook, sheetMerges, sheetToCells, sheetToJson, sheetToMarkdown } from './xlsx'
+import { ZipEntry, readZipEntries, readZipEntry } from './zip'
+
+const execFileAsync = promisify(execFile)
 
 /**
  * Function that processes extraction results
  * @param results - Array of extraction results from the parser
+ * @param info - Whether the results are the whole document or one streamed batch
  * @returns Modified extraction results (can be async)
  */
-export type PostProcessor = (results: ExtractionResult[]) => ExtractionResult[] | Promise<ExtractionResult[]>
+export type PostProcessor = (
+  results: ExtractionResult[],
+  info?: PostProcessorInfo
+) => ExtractionResult[] | Promise<ExtractionResult[]>
+
+/**
+ * Describes the results a post-processor is called with
+ */
+export type PostProcessorInfo = {
+  // 'document': every result of the document (`extract`)
+  // 'page': one batch yielded by `extractStream` — a page, sheet or slide for the built-in extractors
+  mode: 'document' | 'page'
+}
 
 /**
  * Input type for setting post-processors
@@ -27,518 +71,2705 @@ export type PostProcessorInput =
       context?: any
     }
 
+/**
+ * Post-processor stage with a name, used for chains and per-call additions
+ */
+export type NamedPostProcessor = {
+  name: string
+  handler: PostProcessor
+  context?: any
+  order?: number // Lower runs first (default 0)
+}
+
+/**
+ * Per-call changes to the configured post-processor chain
+ */
+export type PostProcessorOverrides = {
+  add?: NamedPostProcessor[] // Extra stages for this call only
+  skip?: string[] // Names of configured stages to leave out for this call
+}
+
 /**
  * Internal storage format for post-processors
  */
 interface PostProcessorContext {
+  name: string
   processor: PostProcessor
   context?: any
+  order: number
+}
+
+/**
+ * Extractor chosen for a file, with the format detected from its contents
+ */
+interface ExtractionRoute {
+  ext: string // Format used for routing: the detected format, or the declared extension
+  routeKey: string // Key of the extractor and post-processor chain
+  detectedFormat: string | null
+  warnings: ExtractionWarning[]
+  container: boolean // Built-in archive or email extractor, whose entries are cached and post-processed on their own
+}
+
+/**
+ * Nesting depth of an archive or email, and the entry budget shared by every container of one call
+ */
+interface ContainerState {
+  depth: number // 1 for the document passed to `extract`
+  limits: Required<ContainerExtractionOptions>
+  budget: { entries: number; bytes: number } // Entries and uncompressed bytes used so far
+}
+
+/**
+ * Options key for the container state of entries extracted through `extract`. A symbol survives
+ * the option spreading along the way and cannot collide with user options.
+ */
+const CONTAINER_STATE = Symbol('containerState')
+
+type ContainerCallOptions = ExtractionOptions & { [CONTAINER_STATE]?: ContainerState }
+
+const DEFAULT_CONTAINER_LIMITS: Required<ContainerExtractionOptions> = {
+  maxDepth: 3,
+  maxTotalSize: 512 * 1024 * 1024,
+  maxEntries: 1000
+}
+
+/**
+ * Render settings for full-page images
+ */
+interface PageImageOptions {
+  resolution: number // DPI
+  scaleTo: number // Fit the longer side to this many pixels; 0 keeps the size from the DPI
+  processing: ImageProcessingOptions
+}
+
+/**
+ * What a `pdftotext -bbox-layout` run found on one PDF page
+ */
+interface PdfPageAnalysis {
+  text?: string // Page text in reading order, when taken from the layout
+  layout?: PdfPageLayout // With `pdf.layout`
+  tables: { index: number; bbox: BoundingBox; rows: string[][] }[]
+}
+
+/**
+ * Name prefix of the per-call temp directories, used to find leftovers of earlier runs
+ */
+const TEMP_DIR_PREFIX = 'docsuite-work-'
+
+/**
+ * File written into every per-call temp directory. The stale sweep only removes directories that
+ * have it, so directories of other programs that happen to share the prefix are left alone.
+ */
+const TEMP_DIR_MARKER = '.docsuite-work-dir'
+
+const DEFAULT_STALE_TEMP_AGE = 24 * 60 * 60 * 1000
+
+/**
+ * Key for post-processors that run for every format
+ */
+const ALL_FORMATS = '*'
+
+/**
+ * Stage name used by the single-processor setters such as `setPdfPostProcessor`
+ */
+const DEFAULT_STAGE = 'default'
+
+/**
+ * Non-fatal issue encountered while extracting a document
+ */
+export type ExtractionWarning = {
+  code: WarningCode
+  message: string
+  stage?: string // Name of the post-processor stage that raised the warning
 }
 
 export type ExtractionResult = {
-  type: 'text' | 'csv' | 'image' | null
+  type: 'text' | 'csv' | 'json' | 'image' | 'metadata' | null
   fileName: string
   page: number // Represents the sheet number, slide number, or page number
   contents?: string
   error?: string
   isFullPage?: boolean
+  index?: number // 1-based position of a table or image result among its kind in the document
+  blocks?: DocxBlock[] // Document structure, for .docx files extracted with format "blocks"
+  sheetName?: string // Worksheet name, for spreadsheet results
+  hidden?: boolean // True for hidden and very hidden worksheets
+  merges?: string[] // Merged ranges of the worksheet, e.g. "A1:C1"
+  title?: string // Slide title, kept out of the slide's body text
+  isNotes?: boolean // True for speaker notes of the slide in `page`
+  ocr?: boolean // True when the text was recognized from a rendered page image
+  confidence?: number // OCR confidence from 0 to 1
+  mimeType?: string // MIME type, for image results
+  data?: Buffer // Image bytes, with `imageOutput: 'buffer'`
+  filePath?: string // Path of the written image file, with `imageOutput: { dir }`
+  width?: number // Pixel width, for image results that could be decoded
+  height?: number // Pixel height, for image results that could be decoded
+  detectedFormat?: string // Extension matching the file contents, when it could be sniffed
+  cached?: boolean // With a result cache: true when the results were read from the cache, false when extracted
+  metadata?: DocumentMetadata // Document properties, on the `metadata` result
+  warnings?: ExtractionWarning[] // Non-fatal issues; the result itself is usable
+  code?: ErrorCode // Machine-readable reason for an error result
+  path?: string // Location inside archives and emails, e.g. "bundle.zip/reports/q3.pdf"
+  layout?: PdfPageLayout // Page size and text blocks with their positions, for PDF text with `pdf.layout`
+  bbox?: BoundingBox // Position on the page in points, for PDF table results
+}
+
+/**
+ * Function that extracts a document for a registered extension or MIME type
+ * @param filePath - Path of the document on disk (in-memory input is written to a temp file first)
+ * @param options - Options passed to `DocSuite.extract`
+ * @returns Extraction results, which then go through the post-processor for the route. An async
+ * iterable of result batches (e.g. one per page) lets `extractStream` yield each batch as it is ready.
+ */
+export type ExtractorHandler = (
+  filePath: string,
+  options: ExtractionOptions
+) => ExtractionResult[] | Promise<ExtractionResult[]> | AsyncIterable<ExtractionResult[]>
+
+export type DocxExtractionOptions = {
+  // 'text' (default): raw text as a single result
+  // 'markdown': headings, lists and tables as Markdown, plus a csv result per table and an image result per image
+  // 'blocks': same results as 'markdown', with the structured block tree on the text result's `blocks`
+  format?: 'text' | 'markdown' | 'blocks'
+}
+
+export type XlsxExtractionOptions = {
+  // 'csv' (default): one csv result per sheet
+  // 'markdown': one text result per sheet with a Markdown table of formatted values
+  // 'json': one json result per sheet with an array of row objects keyed by the header row
+  // 'cells': one json result per sheet with every cell's address, value, formatted value and formula
+  format?: 'csv' | 'markdown' | 'json' | 'cells'
+  recalculate?: boolean // Recompute formulas with xlsx-calc before export
+  includeHidden?: boolean // Include hidden and very hidden sheets (default true)
+  fillMerged?: boolean // Repeat the value of a merged range in every cell it covers
+}
+
+export type PptxExtractionOptions = {
+  notes?: boolean // Return speaker notes as separate text results (default true)
+  images?: boolean // Return pictures on each slide as image results (default false)
+  fullSlideImage?: boolean // Render each slide as an image; requires LibreOffice and Poppler
+}
+
+export type PdfOcrOptions = {
+  engine?: 'tesseract' | OcrEngine // Built-in tesseract.js engine (optional dependency) or a custom function
+  language?: string // Language passed to the engine (default 'eng')
+  minTextLength?: number // Pages whose text layer has fewer non-whitespace characters are OCR'd (default 20)
+  resolution?: number // Render resolution in DPI for OCR (default 300)
 }
 
 export type PdfExtractionOptions = {
   imageFormat?: 'native' | 'jpeg' | 'png'
   fullPageImage?: boolean
+  images?: boolean // Extract embedded images from each page (default true)
+  concurrency?: number // Number of pages processed in parallel (default 1)
+  ocr?: PdfOcrOptions // Recognize text on pages without a usable text layer
+  pageImageResolution?: number // Render resolution of full-page images in DPI (default 150)
+  pageImageSize?: number // Longer side of full-page images in pixels (default 1080, 0 keeps the size from the DPI)
+  imageProcessing?: ImageProcessingOptions // Resize, re-encode, filter and deduplicate image results
+  layout?: boolean | PdfLayoutOptions // Text in column reading order, with the blocks and lines and their positions
+  tables?: boolean | PdfTableOptions // Detect tables and add a csv result per table (default false)
 }
 
-export type ExtractionOptions = {
+/**
+ * Limits for archives (.zip) and emails (.eml, .msg), whose entries and attachments are extracted in turn.
+ * They guard against zip bombs and are checked before anything is decompressed.
+ */
+export type ContainerExtractionOptions = {
+  maxDepth?: number // Archives and emails nested deeper are not opened; 1 opens only the input itself (default 3)
+  maxTotalSize?: number // Uncompressed bytes of all entries and attachments together (default 512 MiB)
+  maxEntries?: number // Entries and attachments in total (default 1000)
+}
+
+/**
+ * Document input accepted by `DocSuite.extract`:
+ * - A file path
+ * - The file contents as a Buffer, Uint8Array or Readable stream (requires `fileName` or `extension`)
+ */
+export type ExtractionInput = string | Buffer | Uint8Array | Readable
+
+/**
+ * Limits honored by the PDF (pages), XLSX (sheets) and PPTX (slides) extractors
+ */
+export type ExtractionLimits = {
+  pages?: string | number[] // 1-based pages, sheets or slides to extract, e.g. "1-5,10" or [1, 2, 3]
+  maxPages?: number // Extract at most this many pages, sheets or slides
+  signal?: AbortSignal // Cancels the extraction and kills in-flight Poppler processes
+}
+
+export type ExtractionOptions = ExtractionLimits & {
   extension?: string
+  fileName?: string // Reported on results and used for routing when the input is not a file path
+  mimeType?: string // Routes to an extractor registered for this MIME type when none matches the extension
+  maxBytes?: number // Reject input larger than this many bytes
+  password?: string // Opens encrypted PDFs and password-protected Word, Excel and PowerPoint files
+  timeout?: number // Stop the extraction after this many ms and return a TIMEOUT error result
+  throwOnError?: boolean // Throw the first error result as a DocSuiteError instead of returning it
+  metadata?: boolean // Add a `metadata` result with the document properties before the content results
+  // How image results carry their bytes:
+  // 'dataUri' (default): a base64 data URI in `contents`
+  // 'buffer': a Buffer in `data`
+  // { dir }: written to files in `dir` (created if missing), with the path in `filePath`
+  imageOutput?: 'dataUri' | 'buffer' | { dir: string }
+  cache?: ResultCache | false // Result cache for this call, or false to bypass the configured one
+  docx?: DocxExtractionOptions
+  xlsx?: XlsxExtractionOptions
+  pptx?: PptxExtractionOptions
   pdf?: PdfExtractionOptions
-  progressCallback?: (event: { type: string; data: any }) => void
+  containers?: ContainerExtractionOptions
+  postProcessors?: PostProcessorOverrides
+  progressCallback?: ProgressCallback
+}
+
+export type MetadataOptions = Pick<ExtractionOptions, 'extension' | 'fileName' | 'signal' | 'password'>
+
+/**
+ * Destination for DocSuite log output. `console` satisfies this interface.
+ */
+export type DocSuiteLogger = {
+  info: (...args: any[]) => void
+  warn: (...args: any[]) => void
+  error: (...args: any[]) => void
+}
+
+/**
+ * Configuration for a DocSuite instance
+ */
+export type DocSuiteConfig = {
+  tmpDir?: string // Root for the per-call temp directories of intermediate files (default os.tmpdir())
+  staleTempAge?: number // Age in ms after which temp directories of earlier runs are removed (default 24 h, 0 to keep)
+  pdf?: PdfExtractionOptions // Defaults merged beneath the per-call PDF options
+  logger?: DocSuiteLogger
+  cache?: ResultCache // Reuse the results of unchanged documents; see `MemoryCache` and `FileCache`
 }
 
 export class DocSuite {
   private static popplerAvailable: boolean = false;
+  static #defaultInstance?: DocSuite
+  static #sweptTempDirs = new Set<string>() // Temp roots already swept by this process
+
+  /**
+   * Shared instance used by the static API
+   */
+  static get defaultInstance(): DocSuite {
+    DocSuite.#defaultInstance ??= new DocSuite()
+    return DocSuite.#defaultInstance
+  }
 
-  static async checkDependencies(): Promise<void> {
+  readonly #tmpDir: string
+  readonly #staleTempAge: number
+  readonly #pdfDefaults: PdfExtractionOptions
+  readonly #logger: DocSuiteLogger
+  readonly #cache?: ResultCache
+  #postProcessors = new Map<string, PostProcessorContext[]>()
+
+  /** Built-in extractors for archives and emails, which run every entry through `extract` */
+  readonly #containerExtractors = new Map<string, ExtractorHandler>([
+    ['.zip', (filePath, options) => this.#zipEntries(filePath, options)],
+    ['.eml', (filePath, options) => this.#emailResults(filePath, 'eml', options)],
+    ['.msg', (filePath, options) => this.#emailResults(filePath, 'msg', options)]
+  ])
+
+  /** Extractors keyed by dotted extension or lower-case MIME type; built-ins can be overridden. */
+  #extractors = new Map<string, ExtractorHandler>([
+    ['.docx', (filePath, options) => this.#docxResults(filePath, options.docx ?? {}, options.progressCallback, options)],
+    ['.xlsx', (filePath, options) => this.#xlsxSheets(filePath, options.xlsx ?? {}, options.progressCallback, options)],
+    ['.xls', (filePath, options) => this.#xlsxSheets(filePath, options.xlsx ?? {}, options.progressCallback, options)],
+    ['.pptx', (filePath, options) => this.#pptxSlides(filePath, options.pptx ?? {}, options.progressCallback, options)],
+    ['.pdf', (filePath, options) => this.#pdfPages(filePath, options.pdf ?? {}, options.progressCallback, options)],
+    ...this.#containerExtractors
+  ])
+
+  constructor(config: DocSuiteConfig = {}) {
+    this.#tmpDir = path.resolve(config.tmpDir ?? os.tmpdir())
+    this.#staleTempAge = config.staleTempAge ?? DEFAULT_STALE_TEMP_AGE
+    this.#pdfDefaults = config.pdf ?? {}
+    this.#logger = config.logger ?? console
+    this.#cache = config.cache
+  }
+
+  /**
+   * Check for the Poppler binaries. Availability is shared by every instance in the process.
+   * @returns Whether Poppler is available
+   */
+  async checkDependencies(): Promise<boolean> {
     try {
       const { execSync } = require('child_process');
       execSync('pdftotext -v', { stdio: 'ignore' }); // Check if the command runs
-      this.popplerAvailable = true;
-      console.log('Poppler dependency verified successfully.');
+      DocSuite.popplerAvailable = true;
+      this.#logger.info('Poppler dependency verified successfully.');
     } catch (error) {
-      this.popplerAvailable = false;
-      console.warn('Poppler utility not found in system PATH. PDF processing will be disabled.');
+      DocSuite.popplerAvailable = false;
+      this.#logger.warn('Poppler utility not found in system PATH. PDF processing will be disabled.');
     }
+    return DocSuite.popplerAvailable
+  }
+
+  /* ---------- static API (default instance) ---------- */
+
+  static async checkDependencies(): Promise<boolean> {
+    return DocSuite.defaultInstance.checkDependencies()
+  }
+
+  static async extract(input: ExtractionInput, options?: ExtractionOptions): Promise<ExtractionResult[]> {
+    return DocSuite.defaultInstance.extract(input, options)
+  }
+
+  static extractEvents(input: ExtractionInput, options?: ExtractionOptions): AsyncGenerator<ProgressEvent> {
+    return DocSuite.defaultInstance.extractEvents(input, options)
+  }
+
+  static extractStream(input: ExtractionInput, options?: ExtractionOptions): AsyncGenerator<ExtractionResult> {
+    return DocSuite.defaultInstance.extractStream(input, options)
+  }
+
+  static async extractDocx(
+    filePath: string,
+    options?: DocxExtractionOptions,
+    progressCallback?: ProgressCallback,
+    limits?: ExtractionLimits & Pick<ExtractionOptions, 'imageOutput'>
+  ): Promise<ExtractionResult[]> {
+    return DocSuite.defaultInstance.extractDocx(filePath, options, progressCallback, limits)
+  }
+
+  static async extractXlsx(
+    filePath: string,
+    options?: XlsxExtractionOptions,
+    progressCallback?: ProgressCallback,
+    limits?: ExtractionLimits & Pick<ExtractionOptions, 'password'>
+  ): Promise<ExtractionResult[]> {
+    return DocSuite.defaultInstance.extractXlsx(filePath, options, progressCallback, limits)
+  }
+
+  static async extractPptx(
+    filePath: string,
+    options?: PptxExtractionOptions,
+    progressCallback?: ProgressCallback,
+    limits?: ExtractionLimits & Pick<ExtractionOptions, 'imageOutput'>
+  ): Promise<ExtractionResult[]> {
+    return DocSuite.defaultInstance.extractPptx(filePath, options, progressCallback, limits)
+  }
+
+  static async extractPdf(
+    filePath: string,
+    options?: PdfExtractionOptions,
+    progressCallback?: ProgressCallback,
+    limits?: ExtractionLimits & Pick<ExtractionOptions, 'imageOutput' | 'password'>
+  ): Promise<ExtractionResult[]> {
+    return DocSuite.defaultInstance.extractPdf(filePath, options, progressCallback, limits)
+  }
+
+  static async getMetadata(input: ExtractionInput, options?: MetadataOptions): Promise<DocumentMetadata> {
+    return DocSuite.defaultInstance.getMetadata(input, options)
+  }
+
+  static chunk(results: ExtractionResult[], options?: ChunkOptions): DocumentChunk[] {
+    return DocSuite.defaultInstance.chunk(results, options)
+  }
+
+  static registerExtractor(extensions: string | string[], handler: ExtractorHandler): void {
+    DocSuite.defaultInstance.registerExtractor(extensions, handler)
+  }
+
+  static unregisterExtractor(extensions: string | string[]): void {
+    DocSuite.defaultInstance.unregisterExtractor(extensions)
+  }
+
+  static listExtractors(): string[] {
+    return DocSuite.defaultInstance.listExtractors()
+  }
+
+  static setDocxPostProcessor(input: PostProcessorInput): void {
+    DocSuite.defaultInstance.setDocxPostProcessor(input)
+  }
+
+  static setXlsxPostProcessor(input: PostProcessorInput): void {
+    DocSuite.defaultInstance.setXlsxPostProcessor(input)
+  }
+
+  static setPptxPostProcessor(input: PostProcessorInput): void {
+    DocSuite.defaultInstance.setPptxPostProcessor(input)
+  }
+
+  static setPdfPostProcessor(input: PostProcessorInput): void {
+    DocSuite.defaultInstance.setPdfPostProcessor(input)
+  }
+
+  static setPostProcessor(extension: string, input: PostProcessorInput): void {
+    DocSuite.defaultInstance.setPostProcessor(extension, input)
+  }
+
+  static addPostProcessor(
+    extensions: string | string[],
+    name: string,
+    input: PostProcessorInput,
+    options?: { order?: number }
+  ): void {
+    DocSuite.defaultInstance.addPostProcessor(extensions, name, input, options)
+  }
+
+  static removePostProcessor(extensions: string | string[], name: string): void {
+    DocSuite.defaultInstance.removePostProcessor(extensions, name)
+  }
+
+  static listPostProcessors(extension: string): string[] {
+    return DocSuite.defaultInstance.listPostProcessors(extension)
   }
-  // Add this as the first private static member
-  static #postProcessors = new Map<string, PostProcessorContext>()
+
+  static clearPostProcessor(extension: string): void {
+    DocSuite.defaultInstance.clearPostProcessor(extension)
+  }
+
+  static clearAllPostProcessors(): void {
+    DocSuite.defaultInstance.clearAllPostProcessors()
+  }
+
   /* ---------- public API ---------- */
 
   /** Generic entry point – routes to the correct parser by file extension. */
-  static async extract(
-    filePath: string,
+  async extract(
+    input: ExtractionInput,
     options?: ExtractionOptions
   ): Promise<ExtractionResult[]> {
-    const ext = options?.extension ? options.extension.toLowerCase() : DocSuite.#ext(filePath)
+    options?.signal?.throwIfAborted()
+    const fileName = DocSuite.#runFileName(input, options)
+    const run = trackRun(options?.progressCallback, fileName)
+    const deadline = DocSuite.#deadline(options)
+    const callOptions = { ...options, signal: deadline.signal }
+
     let results: ExtractionResult[]
+    try {
+      results = await deadline.race(
+        typeof input === 'string' ? this.#extractFile(input, callOptions) : this.#extractBuffer(input, callOptions)
+      )
+    } catch (e) {
+      if (!deadline.timedOut()) {
+        throw e
+      }
+      results = [DocSuite.#timeoutResult(fileName, options?.timeout)]
+    } finally {
+      deadline.clear()
+    }
 
-    switch (ext) {
-      case '.docx':
-        results = await DocSuite.extractDocx(filePath)
-        break
-      case '.xlsx':
-      case '.xls':
-        results = await DocSuite.extractXlsx(filePath)
-        break
-      case '.pptx':
-        results = await DocSuite.extractPptx(filePath)
-        break
-      case '.pdf':
-        results = await DocSuite.extractPdf(filePath, options?.pdf, options?.progressCallback)
-        break
-      default:
-        results = [
-          {
-            type: null,
-            fileName: path.basename(filePath),
-            page: 1,
-            error: `DocSuite: unsupported extension "${ext}"`
+    run.add(results)
+    DocSuite.#throwOnError(results, options)
+    run.finish(results)
+    return results
+  }
+
+  /**
+   * Extract a document page by page, yielding each result as soon as its page, sheet or slide is done.
+   * Post-processors run once per batch (see `PostProcessorInfo`). Breaking out of the loop stops the
+   * extraction and removes its temp files. With `throwOnError`, the stream throws at the first error result.
+   */
+  async *extractStream(input: ExtractionInput, options?: ExtractionOptions): AsyncGenerator<ExtractionResult> {
+    options?.signal?.throwIfAborted()
+    const fileName = DocSuite.#runFileName(input, options)
+    const run = trackRun(options?.progressCallback, fileName)
+    const deadline = DocSuite.#deadline(options)
+    const callOptions = { ...options, signal: deadline.signal }
+
+    const pages =
+      typeof input === 'string' ? this.#streamFile(input, callOptions) : this.#streamBuffer(input, callOptions)
+    let done = false
+    try {
+      for (;;) {
+        const next = await deadline.race(pages.next())
+        if (next.done) {
+          done = true
+          break
+        }
+        run.add(next.value)
+        DocSuite.#throwOnError(next.value, options)
+        yield* next.value
+      }
+    } catch (e) {
+      if (!deadline.timedOut()) {
+        throw e
+      }
+      const timedOut = [DocSuite.#timeoutResult(fileName, options?.timeout)]
+      run.add(timedOut)
+      DocSuite.#throwOnError(timedOut, options)
+      yield* timedOut
+    } finally {
+      deadline.clear()
+      if (!done) {
+        // After a timeout the page in flight settles on its own once the abort reaches it
+        const closing = pages.return(undefined)
+        if (deadline.timedOut()) {
+          closing.catch(() => {})
+        } else {
+          await closing
+        }
+      }
+    }
+
+    run.finish()
+  }
+
+  /**
+   * Same as `extract`, with the progress events as an async iterator. The last event is
+   * `finished`, which carries the results. Errors thrown by `extract` (e.g. on abort) are thrown by the iterator.
+   */
+  extractEvents(input: ExtractionInput, options: ExtractionOptions = {}): AsyncGenerator<ProgressEvent> {
+    return progressEvents<ProgressEvent>((emit) =>
+      this.extract(input, {
+        ...options,
+        progressCallback: (event) => {
+          options.progressCallback?.(event)
+          emit(event)
+        }
+      })
+    )
+  }
+
+  /**
+   * Route a file on disk to its extractor and post-processors
+   */
+  async #extractFile(filePath: string, options?: ExtractionOptions): Promise<ExtractionResult[]> {
+    const tooLarge = await DocSuite.#checkMaxBytes(filePath, options?.maxBytes)
+    if (tooLarge) {
+      return [tooLarge]
+    }
+
+    const opened = await this.#decryptFile(filePath, options?.password)
+    if ('error' in opened) {
+      return [opened.error]
+    }
+
+    try {
+      const route = await this.#resolveRoute(opened.filePath, options)
+      const extracted = await DocSuite.#collectPages(this.#cachedPages(opened.filePath, route, options))
+      const results = await DocSuite.#outputImages(extracted, options?.imageOutput)
+
+      // Entries of archives and emails went through the post-processors of their own format
+      if (route.container) {
+        return results
+      }
+      // Apply post-processor based on the route that handled the file
+      const fileName = path.basename(filePath)
+      return await this.#applyPostProcessors(route.routeKey, fileName, results, options?.postProcessors, {
+        mode: 'document'
+      })
+    } finally {
+      await opened.close()
+    }
+  }
+
+  /**
+   * Route a file on disk to its extractor, yielding each batch of page results after its post-processors
+   */
+  async *#streamFile(filePath: string, options?: ExtractionOptions): AsyncGenerator<ExtractionResult[]> {
+    const tooLarge = await DocSuite.#checkMaxBytes(filePath, options?.maxBytes)
+    if (tooLarge) {
+      yield [tooLarge]
+      return
+    }
+
+    const opened = await this.#decryptFile(filePath, options?.password)
+    if ('error' in opened) {
+      yield [opened.error]
+      return
+    }
+
+    try {
+      const route = await this.#resolveRoute(opened.filePath, options)
+      const fileName = path.basename(filePath)
+      for await (const page of this.#cachedPages(opened.filePath, route, options)) {
+        const results = await DocSuite.#outputImages(page, options?.imageOutput)
+        yield route.container
+          ? results
+          : await this.#applyPostProcessors(route.routeKey, fileName, results, options?.postProcessors, {
+              mode: 'page'
+            })
+      }
+    } finally {
+      await opened.close()
+    }
+  }
+
+  /**
+   * Decrypt a password-protected Office file to a private temp file; other files are used as they are.
+   * `encrypted` tells whether the file was decrypted; `close` removes the decrypted copy.
+   */
+  async #decryptFile(
+    filePath: string,
+    password?: string
+  ): Promise<{ filePath: string; encrypted: boolean; close: () => Promise<void> } | { error: ExtractionResult }> {
+    const encrypted = await readEncryptedPackage(filePath)
+    if (!encrypted) {
+      return { filePath, encrypted: false, close: async () => {} }
+    }
+
+    const fileName = path.basename(filePath)
+    let decrypted: Buffer | null = null
+    try {
+      decrypted = password === undefined ? null : decryptPackage(encrypted, password)
+    } catch (e) {
+      // Encryption schemes other than agile and standard, or a damaged EncryptionInfo
+      const fallback = 'An unknown error occurred while decrypting the document.'
+      return { error: { type: null, fileName, page: 1, ...DocSuite.#errorFields(e, 'UNSUPPORTED_FORMAT', fallback) } }
+    }
+    if (!decrypted) {
+      return { error: { type: null, fileName, page: 1, ...DocSuite.#encryptionError(password) } }
+    }
+
+    const decryptedPath = await this.#writeInputFile(decrypted, fileName)
+    return {
+      filePath: decryptedPath,
+      encrypted: true,
+      close: () => fs.rm(path.dirname(decryptedPath), { recursive: true, force: true })
+    }
+  }
+
+  /**
+   * Find the extractor for a file from its contents, extension or MIME type
+   */
+  async #resolveRoute(filePath: string, options?: ExtractionOptions): Promise<ExtractionRoute> {
+    const declaredExt = options?.extension ? DocSuite.#normalizeExtension(options.extension) : DocSuite.#ext(filePath)
+    const detectedFormat = await detectFormat(filePath)
+    const warnings: ExtractionWarning[] = []
+
+    // Trust the contents over the name when they disagree
+    let ext = declaredExt
+    if (detectedFormat && detectedFormat !== declaredExt) {
+      if (declaredExt) {
+        warnings.push({
+          code: 'FORMAT_MISMATCH',
+          message: `DocSuite: extension "${declaredExt}" does not match the detected format "${detectedFormat}"`
+        })
+      }
+      ext = detectedFormat
+    }
+
+    // Extension routes take precedence; the MIME type is the fallback for unknown extensions
+    const mimeType = options?.mimeType?.toLowerCase()
+    const routeKey = this.#extractors.has(ext) ? ext : mimeType && this.#extractors.has(mimeType) ? mimeType : ext
+    const extractor = this.#extractors.get(routeKey)
+    const container = extractor !== undefined && this.#containerExtractors.get(routeKey) === extractor
+
+    return { ext, routeKey, detectedFormat, warnings, container }
+  }
+
+  /**
+   * Run the extractor of a route, yielding its results as it produces them: page by page for
+   * extractors that return an async iterable, all at once otherwise. The detected format and
+   * warnings are attached to every result; images keep their raw bytes and post-processors are not applied.
+   */
+  async *#extractPages(
+    filePath: string,
+    route: ExtractionRoute,
+    options?: ExtractionOptions
+  ): AsyncGenerator<ExtractionResult[]> {
+    const { ext, routeKey, detectedFormat, warnings } = route
+    const annotate = (results: ExtractionResult[]) => {
+      if (detectedFormat) {
+        for (const result of results) {
+          result.detectedFormat = detectedFormat
+          if (warnings.length > 0) {
+            result.warnings = [...(result.warnings ?? []), ...warnings]
           }
-        ]
+        }
+      }
+      return results
+    }
+
+    if (options?.metadata) {
+      yield annotate([await this.#metadataResult(filePath, ext, options)])
+    }
+
+    const extractor = this.#extractors.get(routeKey)
+    if (!extractor) {
+      yield annotate([
+        {
+          type: null,
+          fileName: path.basename(filePath),
+          page: 1,
+          code: 'UNSUPPORTED_FORMAT',
+          error: `DocSuite: unsupported extension "${ext}"`
+        }
+      ])
+      return
+    }
+
+    try {
+      const output = extractor(filePath, options ?? {})
+      if (DocSuite.#isAsyncIterable(output)) {
+        for await (const page of output) {
+          yield annotate(page)
+        }
+      } else {
+        yield annotate(await output)
+      }
+    } catch (e) {
+      // Extractors report failures as error results; cancellation rejects instead
+      options?.signal?.throwIfAborted()
+      const fallback = `An unknown error occurred in the extractor for "${routeKey}".`
+      yield annotate([
+        {
+          type: null,
+          fileName: path.basename(filePath),
+          page: 1,
+          ...DocSuite.#errorFields(e, 'EXTRACTOR_FAILED', fallback)
+        }
+      ])
+    }
+    options?.signal?.throwIfAborted()
+  }
+
+  /**
+   * `#extractPages` through the result cache: yields the cached results on a hit, otherwise the
+   * extracted pages, which are stored once the extraction completes. Archives and emails are not
+   * cached as a whole; their entries are cached one by one.
+   */
+  async *#cachedPages(
+    filePath: string,
+    route: ExtractionRoute,
+    options?: ExtractionOptions
+  ): AsyncGenerator<ExtractionResult[]> {
+    const cache = options?.cache === false ? undefined : (options?.cache ?? this.#cache)
+    const key = cache && !route.container ? await this.#cacheKey(filePath, route, options) : undefined
+    if (!cache || !key) {
+      yield* this.#extractPages(filePath, route, options)
+      return
+    }
+
+    const cached = await this.#readCache(cache, key)
+    if (cached) {
+      yield* DocSuite.#splitPages(cached)
+      return
+    }
+
+    const extracted: ExtractionResult[] = []
+    for await (const page of this.#extractPages(filePath, route, options)) {
+      for (const result of page) {
+        result.cached = false
+      }
+      extracted.push(...page)
+      yield page
+    }
+    await this.#writeCache(cache, key, extracted)
+  }
+
+  /**
+   * Cache key for a file: its contents, name and route, and the options that change the extracted
+   * results. Post-processors and image output run after the cache, so they are not part of the key.
+   * The password is included as a digest, so a hit needs the same password as the stored extraction.
+   * @returns undefined when the results must not be cached
+   */
+  async #cacheKey(
+    filePath: string,
+    route: ExtractionRoute,
+    options: ExtractionOptions = {}
+  ): Promise<string | undefined> {
+    const { pages, maxPages, metadata, password, docx, xlsx, pptx, pdf } = options
+    return resultCacheKey(filePath, {
+      fileName: path.basename(filePath),
+      ext: route.ext,
+      routeKey: route.routeKey,
+      pages,
+      maxPages,
+      metadata,
+      docx,
+      xlsx,
+      pptx,
+      pdf: { ...this.#pdfDefaults, ...pdf },
+      password: password === undefined ? undefined : secretDigest(password)
+    })
+  }
+
+  /**
+   * Cached results marked with `cached: true`, or undefined on a miss. A failing cache counts as a miss.
+   */
+  async #readCache(cache: ResultCache, key: string): Promise<ExtractionResult[] | undefined> {
+    try {
+      const results = await cache.get(key)
+      return results?.map((result) => ({ ...result, cached: true }))
+    } catch (e) {
+      this.#logger.warn('DocSuite: could not read from the result cache', e)
+      return undefined
+    }
+  }
+
+  /**
+   * Store extracted results. Results with errors are not stored, as most errors (timeouts, missing
+   * dependencies, wrong passwords) do not depend on the file alone.
+   */
+  async #writeCache(cache: ResultCache, key: string, results: ExtractionResult[]): Promise<void> {
+    if (results.some((result) => result.type === null)) {
+      return
+    }
+    try {
+      await cache.set(key, results)
+    } catch (e) {
+      this.#logger.warn('DocSuite: could not write to the result cache', e)
+    }
+  }
+
+  /**
+   * Read the document properties (title, author, dates, page count, ...) of a PDF, Word, Excel or PowerPoint file,
+   * or the subject, sender and date of an email
+   * @param input - File path, or file contents with a `fileName` or `extension` option
+   * @throws DocSuiteError if the format has no metadata reader or the properties cannot be read
+   */
+  async getMetadata(input: ExtractionInput, options: MetadataOptions = {}): Promise<DocumentMetadata> {
+    if (typeof input !== 'string') {
+      const fileName = DocSuite.#inputFileName(options)
+      if (!fileName) {
+        throw new DocSuiteError(
+          'INVALID_INPUT',
+          'DocSuite: a "fileName" or "extension" option is required for buffer and stream input'
+        )
+      }
+      const buffer = await DocSuite.#toBuffer(input)
+      return this.#withInputFile(buffer, fileName, (filePath) => this.getMetadata(filePath, options))
+    }
+
+    const opened = await this.#decryptFile(input, options.password)
+    if ('error' in opened) {
+      throw DocSuite.#toError(opened.error)
+    }
+
+    try {
+      const declaredExt = options.extension ? DocSuite.#normalizeExtension(options.extension) : DocSuite.#ext(input)
+      const format = (await detectFormat(opened.filePath)) ?? declaredExt
+      const metadata = await this.#readMetadata(opened.filePath, format, options)
+      // The properties were read from the decrypted copy, which no longer says it was encrypted
+      return opened.encrypted ? { ...metadata, encrypted: true } : metadata
+    } catch (e) {
+      options.signal?.throwIfAborted()
+      const { code, error } = DocSuite.#errorFields(
+        e,
+        'CORRUPT_FILE',
+        'An unknown error occurred while reading the document metadata.',
+        options.password
+      )
+      throw new DocSuiteError(code, error, { fileName: path.basename(input), cause: e })
+    } finally {
+      await opened.close()
+    }
+  }
+
+  /**
+   * Split extraction results into chunks for embedding, keeping the file name and pages of each chunk
+   * @param results - Results of `extract`; only text and csv results are chunked
+   * @param options - Token budget, overlap, split strategy and token counter
+   * @throws DocSuiteError (INVALID_INPUT) for a `maxTokens` or `overlap` out of range
+   */
+  chunk(results: ExtractionResult[], options?: ChunkOptions): DocumentChunk[] {
+    return chunkResults(results, options)
+  }
+
+  /** Extract raw text, or Markdown with tables and images, from a modern Word document (.docx). */
+  async extractDocx(
+    filePath: string,
+    options: DocxExtractionOptions = {},
+    progressCallback?: ProgressCallback,
+    limits: ExtractionLimits & Pick<ExtractionOptions, 'imageOutput'> = {}
+  ): Promise<ExtractionResult[]> {
+    const results = await this.#docxResults(filePath, options, progressCallback, limits)
+    return DocSuite.#outputImages(results, limits.imageOutput)
+  }
+
+  /**
+   * Extract a Word document as a single page of results, with images as raw bytes
+   */
+  async #docxResults(
+    filePath: string,
+    options: DocxExtractionOptions,
+    progressCallback: ProgressCallback | undefined,
+    limits: ExtractionLimits
+  ): Promise<ExtractionResult[]> {
+    const { format = 'text' } = options
+    const fileName = path.basename(filePath)
+    let results: ExtractionResult[]
+
+    // The whole document is reported as page 1
+    limits.signal?.throwIfAborted()
+    const completePage = startPage(progressCallback, { fileName, page: 1, totalPages: 1 })
+
+    try {
+      if (format === 'text') {
+        const { value } = await mammoth.extractRawText({ path: filePath })
+        results = [
+          {
+            type: 'text',
+            fileName,
+            page: 1,
+            contents: value.trim()
+          }
+        ]
+      } else {
+        const { blocks, tables, images } = await readDocxStructure(filePath)
+        results = [
+          {
+            type: 'text',
+            fileName,
+            page: 1,
+            contents: renderDocxMarkdown(blocks),
+            ...(format === 'blocks' ? { blocks } : {})
+          },
+          ...tables.map(({ index, rows }) => ({
+            type: 'csv' as const,
+            fileName,
+            page: 1,
+            index,
+            contents: toCsv(rows)
+          })),
+          ...images.map(({ index, contentType, data }) => ({
+            type: 'image' as const,
+            fileName,
+            page: 1,
+            index,
+            mimeType: contentType,
+            data
+          }))
+        ]
+      }
+    } catch (e) {
+      results = [
+        {
+          type: null,
+          fileName,
+          page: 1,
+          ...DocSuite.#errorFields(e, 'CORRUPT_FILE', 'An unknown error occurred while parsing the .docx file.')
+        }
+      ]
+    }
+
+    completePage(results)
+    return results
+  }
+
+  /**
+   * Extract each sheet of an Excel workbook (.xls/.xlsx) as CSV, Markdown, JSON rows or a cell dump.
+   * Password-protected .xlsx files are decrypted first, as in `extract`.
+   */
+  async extractXlsx(
+    filePath: string,
+    options: XlsxExtractionOptions = {},
+    progressCallback?: ProgressCallback,
+    limits: ExtractionLimits & Pick<ExtractionOptions, 'password'> = {}
+  ): Promise<ExtractionResult[]> {
+    const opened = await this.#decryptFile(filePath, limits.password)
+    if ('error' in opened) {
+      return [opened.error]
+    }
+    try {
+      return await DocSuite.#collectPages(this.#xlsxSheets(opened.filePath, options, progressCallback, limits))
+    } finally {
+      await opened.close()
+    }
+  }
+
+  /**
+   * Extract the selected sheets of a workbook, one sheet at a time
+   */
+  async *#xlsxSheets(
+    filePath: string,
+    options: XlsxExtractionOptions,
+    progressCallback: ProgressCallback | undefined,
+    limits: ExtractionLimits & Pick<ExtractionOptions, 'password'>
+  ): AsyncGenerator<ExtractionResult[]> {
+    const { format = 'csv', recalculate = false, includeHidden = true, fillMerged = false } = options
+    const fileName = path.basename(filePath)
+
+    try {
+      const wb = XLSX.readFile(filePath, {
+        cellText: true,
+        cellFormula: true,
+        cellDates: true,
+        cellNF: true,
+        ...(limits.password !== undefined ? { password: limits.password } : {})
+      })
+      if (recalculate) {
+        recalculateWorkbook(wb)
+      }
+
+      // Sheets are selected by their 1-based position in the workbook
+      const isHidden = (index: number) => (wb.Workbook?.Sheets?.[index]?.Hidden ?? 0) > 0
+      const sheetNumbers = selectPages(wb.SheetNames.length, limits, (page) => includeHidden || !isHidden(page - 1))
+
+      for (const page of sheetNumbers) {
+        limits.signal?.throwIfAborted()
+        const completePage = startPage(progressCallback, { fileName, page, totalPages: wb.SheetNames.length })
+        const index = page - 1
+        const name = wb.SheetNames[index]
+        const ws = wb.Sheets[name]
+        const hidden = isHidden(index)
+
+        const merges = sheetMerges(ws)
+        if (fillMerged) {
+          fillMergedCells(ws)
+        }
+
+        const [type, contents]: [ExtractionResult['type'], string] =
+          format === 'markdown'
+            ? ['text', sheetToMarkdown(ws)]
+            : format === 'json'
+              ? ['json', sheetToJson(ws)]
+              : format === 'cells'
+                ? ['json', sheetToCells(ws)]
+                : ['csv', XLSX.utils.sheet_to_csv(ws)]
+
+        const result: ExtractionResult = {
+          type,
+          fileName,
+          page,
+          sheetName: name,
+          contents,
+          ...(hidden ? { hidden } : {}),
+          ...(merges.length > 0 ? { merges } : {})
+        }
+        completePage([result])
+        yield [result]
+      }
+    } catch (e) {
+      limits.signal?.throwIfAborted()
+      const fallback = 'An unknown error occurred while parsing the .xlsx file.'
+      yield [{ type: null, fileName, page: 1, ...DocSuite.#errorFields(e, 'CORRUPT_FILE', fallback, limits.password) }]
+    }
+  }
+
+  /** Extract slide titles, text, tables, speaker notes and pictures from a PowerPoint file (.pptx). */
+  async extractPptx(
+    filePath: string,
+    options: PptxExtractionOptions = {},
+    progressCallback?: ProgressCallback,
+    limits: ExtractionLimits & Pick<ExtractionOptions, 'imageOutput'> = {}
+  ): Promise<ExtractionResult[]> {
+    const results = await DocSuite.#collectPages(this.#pptxSlides(filePath, options, progressCallback, limits))
+    return DocSuite.#outputImages(results, limits.imageOutput)
+  }
+
+  /**
+   * Extract the selected slides of a presentation, one slide at a time
+   */
+  async *#pptxSlides(
+    filePath: string,
+    options: PptxExtractionOptions,
+    progressCallback: ProgressCallback | undefined,
+    limits: ExtractionLimits
+  ): AsyncGenerator<ExtractionResult[]> {
+    const { notes = true, images = false, fullSlideImage = false } = options
+    const fileName = path.basename(filePath)
+
+    try {
+      const allSlides = await readPptxSlides(filePath)
+      const slides = selectPages(allSlides.length, limits).map((number) => allSlides[number - 1])
+      const slideImages = fullSlideImage
+        ? this.#renderSlides(
+            filePath,
+            fileName,
+            slides.map((slide) => slide.number),
+            limits.signal
+          )
+        : null
+
+      try {
+        for (const slide of slides) {
+          const page = slide.number
+          const completePage = startPage(progressCallback, { fileName, page, totalPages: allSlides.length })
+          const results: ExtractionResult[] = []
+          // Rendered slide first, as with PDF pages
+          const slideImage = await slideImages?.next()
+          if (slideImage?.value) {
+            results.push(slideImage.value)
+          }
+          results.push({
+            type: 'text',
+            fileName,
+            page,
+            contents: slide.body,
+            ...(slide.title ? { title: slide.title } : {})
+          })
+          slide.tables.forEach((rows, i) => {
+            results.push({ type: 'csv', fileName, page, index: i + 1, contents: toCsv(rows) })
+          })
+          if (notes && slide.notes) {
+            results.push({ type: 'text', fileName, page, contents: slide.notes, isNotes: true })
+          }
+          if (images) {
+            slide.images.forEach(({ contentType, data }, i) => {
+              results.push({
+                type: 'image',
+                fileName,
+                page,
+                index: i + 1,
+                mimeType: contentType,
+                data
+              })
+            })
+          }
+          completePage(results)
+          yield results
+        }
+      } finally {
+        // Removes the converted presentation when the consumer stops early
+        await slideImages?.return(undefined)
+      }
+    } catch (e) {
+      limits.signal?.throwIfAborted()
+      const fallback = 'An unknown error occurred while parsing the .pptx file.'
+      yield [{ type: null, fileName, page: 1, ...DocSuite.#errorFields(e, 'CORRUPT_FILE', fallback) }]
+    }
+  }
+
+  /** Extract text and images from PDF files (.pdf). */
+  async extractPdf(
+    filePath: string,
+    options: PdfExtractionOptions = {},
+    progressCallback?: ProgressCallback,
+    limits: ExtractionLimits & Pick<ExtractionOptions, 'imageOutput' | 'password'> = {}
+  ): Promise<ExtractionResult[]> {
+    const results = await DocSuite.#collectPages(this.#pdfPages(filePath, options, progressCallback, limits))
+    return DocSuite.#outputImages(results, limits.imageOutput)
+  }
+
+  /**
+   * Extract the selected pages of a PDF, yielding each page's results in page order
+   */
+  async *#pdfPages(
+    filePath: string,
+    options: PdfExtractionOptions,
+    progressCallback: ProgressCallback | undefined,
+    limits: ExtractionLimits & Pick<ExtractionOptions, 'password'>
+  ): AsyncGenerator<ExtractionResult[]> {
+    if (!DocSuite.popplerAvailable) {
+      yield [{
+        type: null,
+        fileName: path.basename(filePath),
+        page: 1,
+        code: 'DEPENDENCY_MISSING',
+        error: 'PDF processing is unavailable because the "poppler" system dependency is not installed.'
+      }];
+      return
+    }
+    const {
+      imageFormat = 'native', // Default to native
+      fullPageImage = false,
+      images = true,
+      concurrency = 1,
+      ocr,
+      pageImageResolution = 150,
+      pageImageSize = 1080,
+      imageProcessing = {},
+      layout = false,
+      tables = false
+    } = { ...this.#pdfDefaults, ...options }
+    const fileName = path.basename(filePath)
+    const { signal } = limits
+    const poppler = new AbortablePoppler(signal, limits.password)
+    const workDir = await this.#createWorkDir()
+
+    try {
+      // Get page count
+      const { pageCount = 0 } = parsePdfInfo(await poppler.pdfInfo(filePath))
+      if (pageCount === 0) {
+        yield [
+          {
+            type: null,
+            fileName,
+            page: 1,
+            code: 'CORRUPT_FILE',
+            error: 'Unable to determine PDF page count'
+          }
+        ]
+        return
+      }
+
+      const pageNumbers = selectPages(pageCount, limits)
+      if (pageNumbers.length === 0) {
+        return
+      }
+
+      // Shared by all pages, so an image repeated across pages is only returned the first time it is seen
+      const isDuplicate = imageProcessing.dedupe ? createImageDeduplicator(imageProcessing.dedupe) : undefined
+
+      // Layouts are read for the whole selection up front, as running headers are found by comparing pages
+      const layoutOptions = layout === true ? {} : layout || undefined
+      const tableOptions = tables === true ? {} : tables || undefined
+      const pageLayouts =
+        layoutOptions || tableOptions
+          ? await this.#readPdfLayouts(poppler, filePath, pageNumbers, { layout: layoutOptions, tables: tableOptions })
+          : new Map<number, PdfPageAnalysis>()
+
+      // Without per-page images, a single pdftotext run covers the whole selection
+      const pageTexts =
+        !images && !fullPageImage && !layoutOptions && !tableOptions?.removeFromText
+          ? await this.#readPdfPageTexts(poppler, filePath, pageNumbers[0], pageNumbers[pageNumbers.length - 1])
+          : new Map<number, string>()
+
+      // Process pages with a bounded number in flight; pages are yielded in order as soon as they are ready.
+      // When the consumer stops early, the pages in flight are aborted and awaited before the work
+      // directory is removed.
+      const pages = mapWithConcurrency(
+        pageNumbers,
+        concurrency,
+        async (pageNum, _index, pageSignal) => {
+          pageSignal.throwIfAborted()
+          if (progressCallback) {
+            progressCallback({
+              type: 'embedding_page',
+              data: { currentPage: pageNum, totalPages: pageCount }
+            })
+          }
+          const completePage = startPage(progressCallback, { fileName, page: pageNum, totalPages: pageCount })
+          const pagePoppler = new AbortablePoppler(pageSignal, limits.password)
+          const pageResults = await this.#extractPdfPage(pagePoppler, filePath, fileName, pageNum, {
+            imageFormat,
+            fullPageImage,
+            images,
+            ocr,
+            pageImage: { resolution: pageImageResolution, scaleTo: pageImageSize, processing: imageProcessing },
+            imageProcessing,
+            isDuplicate,
+            workDir,
+            text: pageLayouts.get(pageNum)?.text ?? pageTexts.get(pageNum),
+            layout: pageLayouts.get(pageNum)?.layout,
+            tables: pageLayouts.get(pageNum)?.tables
+          })
+          // Pages finished after the consumer stopped are not reported
+          pageSignal.throwIfAborted()
+          completePage(pageResults)
+          return pageResults
+        },
+        signal
+      )
+
+      for await (const pageResults of pages) {
+        yield pageResults
+      }
+    } catch (e) {
+      signal?.throwIfAborted()
+      const fallback = 'An unknown error occurred while parsing the .pdf file.'
+      yield [{ type: null, fileName, page: 1, ...DocSuite.#errorFields(e, 'CORRUPT_FILE', fallback, limits.password) }]
+    } finally {
+      // Also runs when the consumer stops early or the extraction is aborted
+      await fs.rm(workDir, { recursive: true, force: true })
+    }
+  }
+
+  /**
+   * Extract the text and images of one PDF page
+   * @param options.isDuplicate - Check for embedded images already returned for the document
+   * @param options.workDir - Temp directory of the extraction
+   * @param options.text - Page text already read from a whole-document pdftotext run or from the layout
+   * @param options.layout - Page layout, added to the text result
+   * @param options.tables - Tables detected on the page, returned as csv results after the text
+   */
+  async #extractPdfPage(
+    poppler: AbortablePoppler,
+    filePath: string,
+    fileName: string,
+    pageNum: number,
+    options: Required<Pick<PdfExtractionOptions, 'imageFormat' | 'fullPageImage' | 'images' | 'imageProcessing'>> &
+      Pick<PdfExtractionOptions, 'ocr'> & {
+        pageImage: PageImageOptions
+        isDuplicate?: (image: Buffer) => Promise<boolean>
+        workDir: string
+        text?: string
+        layout?: PdfPageLayout
+        tables?: PdfPageAnalysis['tables']
+      }
+  ): Promise<ExtractionResult[]> {
+    const pageResults: ExtractionResult[] = []
+
+    // START: New Full-Page Image Logic
+    if (options.fullPageImage) {
+      const { workDir, pageImage: render } = options
+      const pageImage = await this.#renderPdfPage(poppler, filePath, fileName, pageNum, workDir, render)
+      if (pageImage) {
+        pageResults.push(pageImage)
+      }
+    }
+    // END: New Full-Page Image Logic
+    
+    try {
+      // 1. Extract text from the page
+      const { layout } = options
+      const text =
+        options.text ??
+        (await poppler.pdfToText(filePath, undefined, {
+          firstPageToConvert: pageNum,
+          lastPageToConvert: pageNum
+        }))
+
+      // Scanned pages have little or no text layer, so recognize the rendered page instead
+      const { ocr } = options
+      const ocrResult =
+        ocr && text.replace(/\s/g, '').length < (ocr.minTextLength ?? 20)
+          ? await this.#ocrPdfPage(poppler, filePath, fileName, pageNum, options.workDir, ocr)
+          : null
+
+      if (ocrResult?.contents) {
+        pageResults.push(ocrResult)
+      } else {
+        if (text.trim().length > 0) {
+          pageResults.push({
+            type: 'text',
+            fileName,
+            page: pageNum,
+            contents: text.trim(),
+            ...(layout ? { layout } : {})
+          })
+        }
+        if (ocrResult?.error) {
+          pageResults.push(ocrResult)
+        }
+      }
+      for (const { index, bbox, rows } of options.tables ?? []) {
+        pageResults.push({ type: 'csv', fileName, page: pageNum, index, contents: toCsv(rows), bbox })
+      }
+
+      // 2. Extract images from the page
+      if (options.images) {
+        // Each page gets its own directory, so the listing below only sees this page's images
+        const imageDir = path.join(options.workDir, `images-p${pageNum}`)
+        await fs.mkdir(imageDir, { recursive: true })
+
+        try {
+          const imageOptions: any = {
+            firstPageToConvert: pageNum,
+            lastPageToConvert: pageNum
+          }
+
+          switch (options.imageFormat) {
+            case 'native':
+              imageOptions.allFiles = true
+              break
+            case 'png':
+              imageOptions.pngFile = true
+              break
+            case 'jpeg':
+            default:
+              imageOptions.jpegFile = true
+              break
+          }
+
+          await poppler.pdfImages(filePath, path.join(imageDir, 'image'), imageOptions)
+
+          const imageFiles = (await fs.readdir(imageDir)).sort()
+
+          for (const imageFile of imageFiles) {
+            const imagePath = path.join(imageDir, imageFile);
+            const imageBuffer = await fs.readFile(imagePath);
+            await fs.rm(imagePath, { force: true }); // Clean up immediately
+
+            if (imageBuffer.length === 0) {
+              this.#logger.warn(`Skipping empty image file extracted from PDF: ${imageFile}`)
+              continue // Skip empty/corrupted files
+            }
+            if (await options.isDuplicate?.(imageBuffer)) {
+              continue
+            }
+            const imageExtension = path.extname(imageFile).slice(1).toLowerCase()
+          
+            let mimeType = 'image/jpeg' // Default
+            switch (imageExtension) {
+              case 'png':
+                mimeType = 'image/png'
+                break
+              case 'jpg':
+              case 'jpeg':
+                mimeType = 'image/jpeg'
+                break
+              case 'tif':
+              case 'tiff':
+                mimeType = 'image/tiff'
+                break
+              case 'jp2':
+                mimeType = 'image/jp2'
+                break
+            }
+
+            const image = await processImage(imageBuffer, mimeType, options.imageProcessing)
+            if (!image) {
+              continue // Filtered out by the size limits
+            }
+
+            pageResults.push({
+              type: 'image',
+              fileName,
+              page: pageNum,
+              mimeType: image.mimeType,
+              data: image.data,
+              ...DocSuite.#imageSize(image)
+            })
+          }
+        } finally {
+          // The individual files are cleaned up as they are processed; this catches any left by a failed run.
+          await fs.rm(imageDir, { recursive: true, force: true })
+        }
+      }
+
+      // 3. Handle pages with no content
+      if (pageResults.length === 0) {
+        pageResults.push({
+          type: 'text',
+          fileName,
+          page: pageNum,
+          contents: ''
+        })
+      }
+
+      return pageResults
+    } catch (pageError) {
+      // Error processing individual page
+      return [
+        {
+          type: null,
+          fileName,
+          page: pageNum,
+          ...DocSuite.#errorFields(pageError, 'CORRUPT_FILE', `Error processing page ${pageNum}`)
+        }
+      ]
+    }
+  }
+
+  /**
+   * Read the text of a range of pages with a single pdftotext run. Poppler ends each page with a form feed.
+   * @returns Page text keyed by page number
+   */
+  async #readPdfPageTexts(
+    poppler: AbortablePoppler,
+    filePath: string,
+    firstPage: number,
+    lastPage: number
+  ): Promise<Map<number, string>> {
+    const text = await poppler.pdfToText(filePath, undefined, {
+      firstPageToConvert: firstPage,
+      lastPageToConvert: lastPage
+    })
+    const pageTexts = new Map<number, string>()
+    text
+      .split('\f')
+      .slice(0, lastPage - firstPage + 1)
+      .forEach((pageText, i) => pageTexts.set(firstPage + i, pageText))
+    return pageTexts
+  }
+
+  /**
+   * Read the layout of the selected pages with a single `pdftotext -bbox-layout` run, mark the
+   * running headers and footers of the selection and detect tables
+   * @param options.layout - Return the page layouts
+   * @param options.tables - Detect tables, numbered across the selection
+   * @returns Analysis keyed by page number, with the page text when it is taken from the layout
+   */
+  async #readPdfLayouts(
+    poppler: AbortablePoppler,
+    filePath: string,
+    pageNumbers: number[],
+    options: { layout?: PdfLayoutOptions; tables?: PdfTableOptions }
+  ): Promise<Map<number, PdfPageAnalysis>> {
+    const firstPage = pageNumbers[0]
+    const xhtml = await poppler.pdfToText(filePath, undefined, {
+      firstPageToConvert: firstPage,
+      lastPageToConvert: pageNumbers[pageNumbers.length - 1],
+      boundingBoxXhtmlLayout: true
+    })
+    const pages = parseBboxLayout(xhtml)
+
+    // Pages between the selected ones are not compared
+    const selected = pageNumbers.filter((pageNum) => pages[pageNum - firstPage])
+    markRunningBlocks(selected.map((pageNum) => pages[pageNum - firstPage]))
+
+    let tableCount = 0
+    return new Map(
+      selected.map((pageNum) => {
+        let page = pages[pageNum - firstPage]
+        const tables = options.tables ? detectTables(page, options.tables) : []
+        if (options.tables?.removeFromText) {
+          page = withoutTables(page, tables)
+        }
+        const layout = options.layout || options.tables?.removeFromText ? pageLayout(page, options.layout) : undefined
+        const analysis: PdfPageAnalysis = {
+          text: layout && layoutText(layout),
+          layout: options.layout && layout,
+          tables: tables.map(({ bbox, rows }) => ({ index: ++tableCount, bbox, rows }))
+        }
+        return [pageNum, analysis]
+      })
+    )
+  }
+
+  /**
+   * Render one PDF page as a full-page image result, or an error result if Poppler fails
+   * @param pdfPath - PDF to render (for slides, the presentation converted to PDF)
+   * @param fileName - File name reported on the result
+   * @param workDir - Temp directory of the extraction
+   * @returns The image, or null if the page rendered empty or was dropped by `maxBytes`
+   */
+  async #renderPdfPage(
+    poppler: AbortablePoppler,
+    pdfPath: string,
+    fileName: string,
+    pageNum: number,
+    workDir: string,
+    render: PageImageOptions = { resolution: 150, scaleTo: 1080, processing: {} }
+  ): Promise<ExtractionResult | null> {
+    try {
+      const imageBuffer = await this.#renderPdfPageImage(poppler, pdfPath, pageNum, workDir, {
+        format: 'jpeg',
+        resolution: render.resolution,
+        ...(render.scaleTo > 0 ? { scaleTo: render.scaleTo } : {})
+      })
+
+      if (imageBuffer.length === 0) {
+        return null
+      }
+
+      // Full-page images are always re-encoded; JPEG unless another format is requested
+      const { format = 'original' } = render.processing
+      const image = await processImage(
+        imageBuffer,
+        'image/jpeg',
+        { ...render.processing, format: format === 'original' ? 'jpeg' : format },
+        false
+      )
+      if (!image) {
+        this.#logger.warn(`Full-page image of page ${pageNum} exceeds maxBytes and was dropped`)
+        return null
+      }
+
+      return {
+        type: 'image',
+        fileName,
+        page: pageNum,
+        mimeType: image.mimeType,
+        data: image.data,
+        ...DocSuite.#imageSize(image),
+        isFullPage: true // Signal this is a full-page image
+      }
+    } catch (cairoError) {
+      const errorMessage = `pdfToCairo failed for page ${pageNum}. The PDF may be incompatible or the environment may have an issue with the Poppler binary.`;
+      this.#logger.error(errorMessage, { originalError: cairoError });
+      return {
+        type: null,
+        fileName,
+        page: pageNum,
+        code: 'RENDER_FAILED',
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Render one PDF page with pdftocairo and return the raw image file contents
+   * @param workDir - Temp directory of the extraction
+   * @param render - Output format, resolution in DPI and optional width/height to scale the page to
+   */
+  async #renderPdfPageImage(
+    poppler: AbortablePoppler,
+    pdfPath: string,
+    pageNum: number,
+    workDir: string,
+    render: { format: 'jpeg' | 'png'; resolution: number; scaleTo?: number }
+  ): Promise<Buffer> {
+    // Unique within the extraction's temp directory; a page can be rendered for display and for OCR.
+    const outputPrefix = path.join(workDir, `cairo-output-${randomBytes(8).toString('hex')}-p${pageNum}`);
+
+    const imagePath = `${outputPrefix}.${render.format === 'jpeg' ? 'jpg' : 'png'}`;
+
+    try {
+      await poppler.pdfToCairo(pdfPath, outputPrefix, {
+        firstPageToConvert: pageNum,
+        lastPageToConvert: pageNum,
+        ...(render.format === 'jpeg'
+          ? { jpegFile: true, jpegOptions: 'quality=95,progressive=n,optimize=n' }
+          : { pngFile: true }),
+        resolutionXYAxis: render.resolution,
+        ...(render.scaleTo ? { scalePageTo: render.scaleTo } : {}),
+        cropBox: true,
+        singleFile: true,
+        antialias: 'good'
+      })
+
+      // The external tool might fail silently. We must verify the file was created.
+      try {
+        await fs.access(imagePath);
+      } catch (e) {
+        throw new Error('pdftocairo failed to create output file.');
+      }
+
+      return await fs.readFile(imagePath);
+    } finally {
+      await fs.rm(imagePath, { force: true }); // Clean up immediately, including after a failed or aborted run
+    }
+  }
+
+  /**
+   * Render one PDF page for OCR and recognize its text
+   */
+  async #ocrPdfPage(
+    poppler: AbortablePoppler,
+    pdfPath: string,
+    fileName: string,
+    pageNum: number,
+    workDir: string,
+    ocr: PdfOcrOptions
+  ): Promise<ExtractionResult> {
+    try {
+      const image = await this.#renderPdfPageImage(poppler, pdfPath, pageNum, workDir, {
+        format: 'png',
+        resolution: ocr.resolution ?? 300
+      })
+      const engine = resolveOcrEngine(ocr.engine ?? 'tesseract')
+      const { text, confidence } = await engine(image, { language: ocr.language ?? 'eng', page: pageNum })
+      return {
+        type: 'text',
+        fileName,
+        page: pageNum,
+        contents: text.trim(),
+        ocr: true,
+        confidence
+      }
+    } catch (ocrError) {
+      const { code, error } = DocSuite.#errorFields(ocrError, 'OCR_FAILED', String(ocrError))
+      this.#logger.error(`OCR failed for page ${pageNum}: ${error}`)
+      return {
+        type: null,
+        fileName,
+        page: pageNum,
+        code,
+        error: `OCR failed for page ${pageNum}: ${error}`
+      }
+    }
+  }
+
+  /**
+   * Render slides of a presentation as full-page images by converting it to PDF with LibreOffice.
+   * Yields one image (or error) result per slide, in order, or `null` for a slide that rendered empty.
+   * Errors not tied to a slide are yielded once, on the first slide.
+   * @param slideNumbers - Slides to render
+   */
+  async *#renderSlides(
+    filePath: string,
+    fileName: string,
+    slideNumbers: number[],
+    signal?: AbortSignal
+  ): AsyncGenerator<ExtractionResult | null> {
+    if (!DocSuite.popplerAvailable) {
+      yield {
+        type: null,
+        fileName,
+        page: slideNumbers[0] ?? 1,
+        code: 'DEPENDENCY_MISSING',
+        error: 'Full-slide rendering is unavailable because the "poppler" system dependency is not installed.'
+      };
+      return
+    }
+
+    const outDir = await this.#createWorkDir()
+
+    try {
+      try {
+        await execFileAsync('soffice', ['--headless', '--convert-to', 'pdf', '--outdir', outDir, filePath], { signal })
+      } catch (e) {
+        signal?.throwIfAborted()
+        throw new DocSuiteError(
+          'DEPENDENCY_MISSING',
+          'Full-slide rendering requires LibreOffice ("soffice") in the system PATH.'
+        )
+      }
+
+      const pdfPath = path.join(outDir, `${path.parse(filePath).name}.pdf`)
+      const poppler = new AbortablePoppler(signal)
+      const { pageCount = 0 } = parsePdfInfo(await poppler.pdfInfo(pdfPath))
+
+      for (const pageNum of slideNumbers) {
+        signal?.throwIfAborted()
+        yield pageNum <= pageCount ? await this.#renderPdfPage(poppler, pdfPath, fileName, pageNum, outDir) : null
+      }
+    } catch (e) {
+      signal?.throwIfAborted()
+      const fallback = 'An unknown error occurred while rendering the slides.'
+      yield { type: null, fileName, page: slideNumbers[0] ?? 1, ...DocSuite.#errorFields(e, 'RENDER_FAILED', fallback) }
+    } finally {
+      await fs.rm(outDir, { recursive: true, force: true })
+    }
+  }
+
+  /* ---------- archives and emails ---------- */
+
+  /**
+   * Extract every file of a zip archive through `extract`, yielding the results of each entry when it is done.
+   * The entry count and declared sizes are checked against the `containers` limits before anything is decompressed.
+   * Entries whose extension has no extractor are skipped without being decompressed, and their size is not counted.
+   * They are listed in one ENTRY_SKIPPED warning on the first result of the archive.
+   */
+  async *#zipEntries(filePath: string, options: ContainerCallOptions): AsyncGenerator<ExtractionResult[]> {
+    const fileName = path.basename(filePath)
+    const state = DocSuite.#enterContainer(fileName, options)
+    if ('error' in state) {
+      yield [state.error]
+      return
+    }
+
+    const archive = await fs.readFile(filePath)
+    let entries: ZipEntry[]
+    try {
+      // Resource forks that macOS adds to archives are not documents
+      entries = readZipEntries(archive).filter((entry) => !entry.name.startsWith('__MACOSX/'))
+    } catch (e) {
+      const fallback = 'An unknown error occurred while reading the archive.'
+      yield [{ type: null, fileName, page: 1, ...DocSuite.#errorFields(e, 'CORRUPT_FILE', fallback) }]
+      return
+    }
+
+    const extractable = entries.filter((entry) =>
+      this.#extractors.has(DocSuite.#ext(DocSuite.#entryFileName(entry.name)))
+    )
+    const size = extractable.reduce((total, entry) => total + entry.size, 0)
+    const exceeded = DocSuite.#reserveEntries(fileName, state, entries.length, size)
+    if (exceeded) {
+      yield [exceeded]
+      return
+    }
+
+    const skipped = entries.filter((entry) => !extractable.includes(entry)).map((entry) => entry.name)
+    let warnings = DocSuite.#skippedWarnings(fileName, skipped)
+    const withWarnings = (results: ExtractionResult[]) => {
+      const [first, ...rest] = results
+      if (!first || warnings.length === 0) {
+        return results
+      }
+      const annotated = [{ ...first, warnings: [...(first.warnings ?? []), ...warnings] }, ...rest]
+      warnings = []
+      return annotated
+    }
+
+    for (const entry of extractable) {
+      options.signal?.throwIfAborted()
+      let data: Buffer
+      try {
+        // Decompression stops at the declared size, so entries cannot exceed the size reserved for them
+        data = await readZipEntry(archive, entry)
+      } catch (e) {
+        const fallback = `An unknown error occurred while decompressing "${entry.name}".`
+        const error = { type: null, fileName: DocSuite.#entryFileName(entry.name), page: 1 }
+        yield withWarnings(
+          DocSuite.#withProvenance(fileName, entry.name, [
+            { ...error, ...DocSuite.#errorFields(e, 'CORRUPT_FILE', fallback) }
+          ])
+        )
+        continue
+      }
+      yield withWarnings(await this.#extractEntry(fileName, entry.name, data, options, state))
+    }
+
+    // Nothing in the archive was extracted, so the warning goes on a result for the archive itself
+    if (warnings.length > 0) {
+      yield [{ type: 'text', fileName, page: 1, contents: '', path: fileName, warnings }]
+    }
+  }
+
+  /**
+   * Extract an email: a text result with the headers and body, then every attachment through `extract`
+   */
+  async *#emailResults(
+    filePath: string,
+    format: 'eml' | 'msg',
+    options: ContainerCallOptions
+  ): AsyncGenerator<ExtractionResult[]> {
+    const fileName = path.basename(filePath)
+    const state = DocSuite.#enterContainer(fileName, options)
+    if ('error' in state) {
+      yield [state.error]
+      return
+    }
+
+    let email: Email
+    try {
+      const data = await fs.readFile(filePath)
+      email = format === 'msg' ? parseMsg(data) : parseEml(data)
+    } catch (e) {
+      const fallback = 'An unknown error occurred while reading the email.'
+      yield [{ type: null, fileName, page: 1, ...DocSuite.#errorFields(e, 'CORRUPT_FILE', fallback) }]
+      return
+    }
+    yield* this.#emailPages(fileName, email, options, state)
+  }
+
+  /**
+   * Results of a parsed email and its attachments. Messages attached to an Outlook message have no
+   * file of their own and are extracted here, one level deeper.
+   */
+  async *#emailPages(
+    fileName: string,
+    email: Email,
+    options: ContainerCallOptions,
+    state: ContainerState
+  ): AsyncGenerator<ExtractionResult[]> {
+    // Attachments without an extension are detected from their contents
+    const skipped = new Set<EmailAttachment>()
+    for (const attachment of email.attachments) {
+      if ('data' in attachment && !(await this.#hasExtractor(attachment.fileName, attachment.data))) {
+        skipped.add(attachment)
+      }
+    }
+    const warnings = DocSuite.#skippedWarnings(
+      fileName,
+      [...skipped].map((attachment) => attachment.fileName)
+    )
+    yield [
+      {
+        type: 'text',
+        fileName,
+        page: 1,
+        contents: emailText(email),
+        path: fileName,
+        ...(warnings.length > 0 ? { warnings } : {})
+      }
+    ]
+
+    const attachments = email.attachments.filter((attachment) => !skipped.has(attachment))
+    const size = attachments.reduce((total, file) => total + ('data' in file ? file.data.length : 0), 0)
+    const exceeded = DocSuite.#reserveEntries(fileName, state, email.attachments.length, size)
+    if (exceeded) {
+      yield [{ ...exceeded, path: fileName }]
+      return
+    }
+
+    for (const attachment of attachments) {
+      options.signal?.throwIfAborted()
+      if ('data' in attachment) {
+        yield await this.#extractEntry(fileName, attachment.fileName, attachment.data, options, state)
+        continue
+      }
+
+      const nested = DocSuite.#enterContainer(attachment.fileName, {
+        [CONTAINER_STATE]: { ...state, depth: state.depth + 1 }
+      })
+      if ('error' in nested) {
+        yield DocSuite.#withProvenance(fileName, attachment.fileName, [nested.error])
+        continue
+      }
+      for await (const page of this.#emailPages(attachment.fileName, attachment.message, options, nested)) {
+        yield DocSuite.#withProvenance(fileName, attachment.fileName, page)
+      }
+    }
+  }
+
+  /**
+   * Extract an archive entry or attachment through `extract`, one container level deeper, with its
+   * location in `path`
+   */
+  async #extractEntry(
+    container: string,
+    entryPath: string,
+    data: Buffer,
+    options: ContainerCallOptions,
+    state: ContainerState
+  ): Promise<ExtractionResult[]> {
+    // Progress, the timeout and throwOnError belong to the outer call, which also converts the images.
+    // Page selections and maxBytes apply to the container file; entries are limited by the container budget.
+    const {
+      progressCallback,
+      timeout,
+      throwOnError,
+      fileName,
+      extension,
+      mimeType,
+      pages,
+      maxPages,
+      maxBytes,
+      ...inherited
+    } = options
+    const entryName = DocSuite.#entryFileName(entryPath)
+    const entryOptions: ContainerCallOptions = {
+      ...inherited,
+      fileName: entryName,
+      imageOutput: 'buffer',
+      [CONTAINER_STATE]: { ...state, depth: state.depth + 1 }
+    }
+    return DocSuite.#withProvenance(container, entryPath, await this.extract(data, entryOptions))
+  }
+
+  /**
+   * Whether an entry or attachment has an extractor, by its extension or else by its detected format
+   */
+  async #hasExtractor(entryPath: string, data: Buffer): Promise<boolean> {
+    if (this.#extractors.has(DocSuite.#ext(DocSuite.#entryFileName(entryPath)))) {
+      return true
+    }
+    const detected = await detectBufferFormat(data)
+    return detected !== null && this.#extractors.has(detected)
+  }
+
+  /**
+   * A single ENTRY_SKIPPED warning listing the entries or attachments of a container that have no
+   * extractor, or none when nothing was skipped
+   */
+  static #skippedWarnings(container: string, entryPaths: string[]): ExtractionWarning[] {
+    if (entryPaths.length === 0) {
+      return []
+    }
+    const list = entryPaths.map((entryPath) => `"${entryPath}"`).join(', ')
+    const message = `DocSuite: skipped ${list} in "${container}"; no extractor for their format`
+    return [{ code: 'ENTRY_SKIPPED', message }]
+  }
+
+  /**
+   * Container state of an archive or email, or an error result if it is nested deeper than `maxDepth`.
+   * The document passed to `extract` starts a new state from the `containers` option.
+   */
+  static #enterContainer(
+    fileName: string,
+    options: ContainerCallOptions
+  ): ContainerState | { error: ExtractionResult } {
+    const state: ContainerState = options[CONTAINER_STATE] ?? {
+      depth: 1,
+      limits: {
+        maxDepth: options.containers?.maxDepth ?? DEFAULT_CONTAINER_LIMITS.maxDepth,
+        maxTotalSize: options.containers?.maxTotalSize ?? DEFAULT_CONTAINER_LIMITS.maxTotalSize,
+        maxEntries: options.containers?.maxEntries ?? DEFAULT_CONTAINER_LIMITS.maxEntries
+      },
+      budget: { entries: 0, bytes: 0 }
+    }
+    if (state.depth > state.limits.maxDepth) {
+      const error = `DocSuite: "${fileName}" is nested deeper than the limit of ${state.limits.maxDepth} (containers.maxDepth)`
+      return { error: { type: null, fileName, page: 1, code: 'LIMIT_EXCEEDED', error } }
+    }
+    return state
+  }
+
+  /**
+   * Count the entries of a container and their uncompressed bytes against the limits of the call
+   * @returns An error result if a limit would be exceeded, or null once the entries are counted
+   */
+  static #reserveEntries(
+    fileName: string,
+    state: ContainerState,
+    entries: number,
+    bytes: number
+  ): ExtractionResult | null {
+    const { budget, limits } = state
+    const exceeded =
+      budget.entries + entries > limits.maxEntries
+        ? `${limits.maxEntries} entries (containers.maxEntries)`
+        : budget.bytes + bytes > limits.maxTotalSize
+          ? `${limits.maxTotalSize} uncompressed bytes (containers.maxTotalSize)`
+          : null
+    if (exceeded) {
+      const error = `DocSuite: extracting "${fileName}" would exceed the limit of ${exceeded}`
+      return { type: null, fileName, page: 1, code: 'LIMIT_EXCEEDED', error }
+    }
+
+    budget.entries += entries
+    budget.bytes += bytes
+    return null
+  }
+
+  /**
+   * Prefix the `path` of an entry's results with the container and the entry's directory
+   */
+  static #withProvenance(container: string, entryPath: string, results: ExtractionResult[]): ExtractionResult[] {
+    const dir = path.posix.dirname(entryPath)
+    return results.map((result) => ({
+      ...result,
+      path: path.posix.join(container, dir, result.path ?? path.posix.basename(entryPath))
+    }))
+  }
+
+  /**
+   * Temp file name for an entry: its last path segment, which cannot point outside the temp directory
+   */
+  static #entryFileName(entryPath: string): string {
+    const name = path.posix.basename(entryPath.replace(/\\/g, '/'))
+    return name === '' || name === '.' || name === '..' ? 'entry' : name
+  }
+
+  /* ---------- extractor registry ---------- */
+
+  /**
+   * Register an extractor for one or more extensions or MIME types.
+   * Replaces any existing extractor for the same key, including the built-in ones.
+   * @param extensions - Extensions (with or without leading dot) or MIME types such as "text/html"
+   * @param handler - Function that extracts the document
+   */
+  registerExtractor(extensions: string | string[], handler: ExtractorHandler): void {
+    for (const key of Array.isArray(extensions) ? extensions : [extensions]) {
+      this.#extractors.set(DocSuite.#routeKey(key), handler)
+    }
+  }
+
+  /**
+   * Remove the extractor for one or more extensions or MIME types
+   * @param extensions - Extensions or MIME types to unregister
+   */
+  unregisterExtractor(extensions: string | string[]): void {
+    for (const key of Array.isArray(extensions) ? extensions : [extensions]) {
+      this.#extractors.delete(DocSuite.#routeKey(key))
+    }
+  }
+
+  /**
+   * List the extensions and MIME types that currently have an extractor
+   */
+  listExtractors(): string[] {
+    return [...this.#extractors.keys()].sort()
+  }
+
+  /* ---------- post-processor configuration ---------- */
+
+  /**
+   * Set a post-processor for DOCX files
+   * @param input - Function or object with handler and context
+   */
+  setDocxPostProcessor(input: PostProcessorInput): void {
+    this.#setPostProcessor('.docx', input)
+  }
+
+  /**
+   * Set a post-processor for XLSX/XLS files
+   * @param input - Function or object with handler and context
+   */
+  setXlsxPostProcessor(input: PostProcessorInput): void {
+    this.#setPostProcessor('.xlsx', input)
+    this.#setPostProcessor('.xls', input)
+  }
+
+  /**
+   * Set a post-processor for PPTX files
+   * @param input - Function or object with handler and context
+   */
+  setPptxPostProcessor(input: PostProcessorInput): void {
+    this.#setPostProcessor('.pptx', input)
+  }
+
+  /**
+   * Set a post-processor for PDF files
+   * @param input - Function or object with handler and context
+   */
+  setPdfPostProcessor(input: PostProcessorInput): void {
+    this.#setPostProcessor('.pdf', input)
+  }
+
+  /**
+   * Generic setter for any file extension.
+   * Replaces the "default" stage of the format's chain; stages added by name are kept.
+   * @param extension - File extension (with or without leading dot), or a MIME type registered with `registerExtractor`
+   * @param input - Function or object with handler and context
+   */
+  setPostProcessor(extension: string, input: PostProcessorInput): void {
+    this.#setPostProcessor(DocSuite.#routeKey(extension), input)
+  }
+
+  /**
+   * Add a named stage to the post-processor chain of one or more formats.
+   * Stages run in ascending `order`; at equal order, "*" stages run before format stages,
+   * and stages run in the order they were added. Adding an existing name replaces that stage.
+   * @param extensions - Extensions or MIME types, or "*" for every format
+   * @param name - Stage name, used to remove, skip and report the stage
+   * @param input - Function or object with handler and context
+   * @param options - Optional position in the chain
+   */
+  addPostProcessor(
+    extensions: string | string[],
+    name: string,
+    input: PostProcessorInput,
+    options: { order?: number } = {}
+  ): void {
+    for (const extension of Array.isArray(extensions) ? extensions : [extensions]) {
+      this.#setPostProcessor(DocSuite.#chainKey(extension), input, name, options.order)
+    }
+  }
+
+  /**
+   * Remove a named stage from the post-processor chain of one or more formats
+   * @param extensions - Extensions or MIME types, or "*" for every format
+   * @param name - Stage name passed to `addPostProcessor`
+   */
+  removePostProcessor(extensions: string | string[], name: string): void {
+    for (const extension of Array.isArray(extensions) ? extensions : [extensions]) {
+      const key = DocSuite.#chainKey(extension)
+      const chain = this.#postProcessors.get(key)?.filter((stage) => stage.name !== name)
+      if (chain && chain.length > 0) {
+        this.#postProcessors.set(key, chain)
+      } else {
+        this.#postProcessors.delete(key)
+      }
+    }
+  }
+
+  /**
+   * List the stage names that run for a format, in execution order (including "*" stages)
+   * @param extension - Extension or MIME type, or "*" for only the wildcard stages
+   */
+  listPostProcessors(extension: string): string[] {
+    return this.#resolveChain(DocSuite.#chainKey(extension)).map((stage) => stage.name)
+  }
+
+  /**
+   * Clear a specific post-processor chain
+   * @param extension - File extension or MIME type to clear, or "*" for the wildcard stages
+   */
+  clearPostProcessor(extension: string): void {
+    this.#postProcessors.delete(DocSuite.#chainKey(extension))
+  }
+
+  /**
+   * Clear all post-processors
+   */
+  clearAllPostProcessors(): void {
+    this.#postProcessors.clear()
+  }
+
+  /* ---------- private helpers ---------- */
+
+  /**
+   * Run in-memory input through the regular path-based routing
+   */
+  async #extractBuffer(
+    input: Buffer | Uint8Array | Readable,
+    options?: ExtractionOptions
+  ): Promise<ExtractionResult[]> {
+    const read = await DocSuite.#readInput(input, options)
+    if ('error' in read) {
+      return [read.error]
+    }
+
+    return this.#withInputFile(read.buffer, read.fileName, (filePath) => this.#extractFile(filePath, options))
+  }
+
+  /**
+   * Streaming counterpart of `#extractBuffer`; the temp file lives until the stream ends or is closed
+   */
+  async *#streamBuffer(
+    input: Buffer | Uint8Array | Readable,
+    options?: ExtractionOptions
+  ): AsyncGenerator<ExtractionResult[]> {
+    const read = await DocSuite.#readInput(input, options)
+    if ('error' in read) {
+      yield [read.error]
+      return
+    }
+
+    const filePath = await this.#writeInputFile(read.buffer, read.fileName)
+    try {
+      yield* this.#streamFile(filePath, options)
+    } finally {
+      await fs.rm(path.dirname(filePath), { recursive: true, force: true })
     }
-
-    // Apply post-processor based on extension
-    return await this.#applyPostProcessor(ext, results)
   }
 
-  /** Extract raw text from a modern Word document (.docx). */
-  static async extractDocx(filePath: string): Promise<ExtractionResult[]> {
-    const fileName = path.basename(filePath)
-    let results: ExtractionResult[]
-
+  /**
+   * Read in-memory input and resolve its file name, or return the error result when either fails
+   */
+  static async #readInput(
+    input: Buffer | Uint8Array | Readable,
+    options?: ExtractionOptions
+  ): Promise<{ buffer: Buffer; fileName: string } | { error: ExtractionResult }> {
+    const fileName = DocSuite.#inputFileName(options)
+    let buffer: Buffer
     try {
-      const { value } = await mammoth.extractRawText({ path: filePath })
-      results = [
-        {
-          type: 'text',
-          fileName,
-          page: 1,
-          contents: value.trim()
-        }
-      ]
+      buffer = await DocSuite.#toBuffer(input, options?.maxBytes)
     } catch (e) {
-      const error = e instanceof Error ? e.message : 'An unknown error occurred while parsing the .docx file.'
-      results = [
-        {
+      if (!(e instanceof RangeError)) {
+        throw e
+      }
+      return {
+        error: {
           type: null,
-          fileName,
+          fileName: fileName ?? 'unknown',
           page: 1,
-          error
+          code: 'INPUT_TOO_LARGE',
+          error: e.message
         }
-      ]
+      }
     }
 
-    return results
-  }
-
-  /** Extract text (as CSV per sheet) from Excel workbooks (.xls/.xlsx). */
-  static async extractXlsx(filePath: string): Promise<ExtractionResult[]> {
-    const fileName = path.basename(filePath)
-    const ext = DocSuite.#ext(filePath) // Get actual extension (.xlsx or .xls)
-    let results: ExtractionResult[]
-
-    try {
-      const wb = XLSX.readFile(filePath, { cellText: true, cellFormula: true, cellDates: true, cellNF: true })
-      results = wb.SheetNames.map((name, index) => ({
-        type: 'csv' as const,
-        fileName,
-        page: index + 1,
-        contents: XLSX.utils.sheet_to_csv(wb.Sheets[name])
-      }))
-    } catch (e) {
-      const error = e instanceof Error ? e.message : 'An unknown error occurred while parsing the .xlsx file.'
-      results = [
-        {
+    if (!fileName) {
+      return {
+        error: {
           type: null,
-          fileName,
+          fileName: 'unknown',
           page: 1,
-          error
+          code: 'INVALID_INPUT',
+          error: 'DocSuite: a "fileName" or "extension" option is required for buffer and stream input'
         }
-      ]
+      }
     }
 
-    return results
+    return { buffer, fileName }
   }
 
-  /** Extract slide text from a PowerPoint file (.pptx). */
-  static async extractPptx(filePath: string): Promise<ExtractionResult[]> {
-    const fileName = path.basename(filePath)
-    let results: ExtractionResult[]
+  /**
+   * Write in-memory input to a private temp directory under its original file name,
+   * call `fn` with its path, then remove the directory.
+   */
+  async #withInputFile<T>(buffer: Buffer, fileName: string, fn: (filePath: string) => Promise<T>): Promise<T> {
+    const filePath = await this.#writeInputFile(buffer, fileName)
+    try {
+      return await fn(filePath)
+    } finally {
+      await fs.rm(path.dirname(filePath), { recursive: true, force: true })
+    }
+  }
+
+  /**
+   * Write in-memory input to a new private temp directory and return its path
+   */
+  async #writeInputFile(buffer: Buffer, fileName: string): Promise<string> {
+    const inputDir = await this.#createWorkDir()
 
+    const filePath = path.join(inputDir, fileName)
     try {
-      const parser = new PptxParser(filePath)
-      const slides = await parser.extractText()
-      results = slides.map((slide, index) => ({
-        type: 'text' as const,
-        fileName,
-        page: index + 1,
-        contents: slide.text.join('\n')
-      }))
+      await fs.writeFile(filePath, buffer)
     } catch (e) {
-      const error = e instanceof Error ? e.message : 'An unknown error occurred while parsing the .pptx file.'
-      results = [
-        {
-          type: null,
-          fileName,
-          page: 1,
-          error
-        }
-      ]
+      await fs.rm(inputDir, { recursive: true, force: true })
+      throw e
     }
-
-    return results
+    return filePath
   }
 
-  /** Extract text and images from PDF files (.pdf). */
-  static async extractPdf(
-    filePath: string,
-    options: PdfExtractionOptions = {},
-    progressCallback?: (event: { type: string; data: any }) => void
-  ): Promise<ExtractionResult[]> {
-    if (!this.popplerAvailable) {
-      return [{
-        type: null,
-        fileName: path.basename(filePath),
-        page: 1,
-        error: 'PDF processing is unavailable because the "poppler" system dependency is not installed.'
-      }];
+  /**
+   * Create a private temp directory for one call under the temp root. The caller removes it.
+   * The first call for a temp root also removes directories left by earlier runs that crashed.
+   */
+  async #createWorkDir(): Promise<string> {
+    await fs.mkdir(this.#tmpDir, { recursive: true })
+    if (this.#staleTempAge > 0 && !DocSuite.#sweptTempDirs.has(this.#tmpDir)) {
+      DocSuite.#sweptTempDirs.add(this.#tmpDir)
+      await this.#removeStaleTempDirs()
     }
-    const { imageFormat = 'native', fullPageImage = false } = options // Default to native
-    const fileName = path.basename(filePath)
-    const poppler = new Poppler()
+    const dir = await fs.mkdtemp(path.join(this.#tmpDir, TEMP_DIR_PREFIX))
+    try {
+      await fs.writeFile(path.join(dir, TEMP_DIR_MARKER), '')
+    } catch (e) {
+      await fs.rm(dir, { recursive: true, force: true })
+      throw e
+    }
+    return dir
+  }
 
+  /**
+   * Remove temp directories of DocSuite older than `staleTempAge`. Directories of running calls are
+   * newer, as their files are written as the call progresses.
+   */
+  async #removeStaleTempDirs(): Promise<void> {
+    const cutoff = Date.now() - this.#staleTempAge
     try {
-      // Get page count
-      const info = await poppler.pdfInfo(filePath)
-      const pageCountMatch = (typeof info === 'string') ? info.match(/Pages:\s+(\d+)/) : ''
-      const pageCount = pageCountMatch ? parseInt(pageCountMatch[1]) : 0
-      if (pageCount === 0) {
-        return [
-          {
-            type: null,
-            fileName,
-            page: 1,
-            error: 'Unable to determine PDF page count'
-          }
-        ]
+      const entries = await fs.readdir(this.#tmpDir, { withFileTypes: true })
+      for (const entry of entries) {
+        if (!entry.isDirectory() || !entry.name.startsWith(TEMP_DIR_PREFIX)) {
+          continue
+        }
+        const dir = path.join(this.#tmpDir, entry.name)
+        const { mtimeMs } = await fs.stat(dir)
+        const marked = await fs.access(path.join(dir, TEMP_DIR_MARKER)).then(
+          () => true,
+          () => false
+        )
+        if (mtimeMs < cutoff && marked) {
+          await fs.rm(dir, { recursive: true, force: true })
+        }
       }
+    } catch (e) {
+      this.#logger.warn(`DocSuite: could not remove stale temp directories in ${this.#tmpDir}`, e)
+    }
+  }
 
-      const results: ExtractionResult[] = []
+  /**
+   * File name for in-memory input, from the `fileName` or `extension` option
+   */
+  static #inputFileName(options?: { fileName?: string; extension?: string }): string | undefined {
+    return options?.fileName
+      ? path.basename(options.fileName)
+      : options?.extension
+        ? `document${DocSuite.#normalizeExtension(options.extension)}`
+        : undefined
+  }
 
-      // Process each page
-      for (let pageNum = 1; pageNum <= pageCount; pageNum++) {
-        if (progressCallback) {
-          progressCallback({
-            type: 'embedding_page',
-            data: { currentPage: pageNum, totalPages: pageCount }
-          })
+  /**
+   * Read the document properties for a detected or declared format
+   */
+  async #readMetadata(
+    filePath: string,
+    format: string,
+    { signal, password }: Pick<ExtractionOptions, 'signal' | 'password'>
+  ): Promise<DocumentMetadata> {
+    switch (format) {
+      case '.pdf':
+        if (!DocSuite.popplerAvailable) {
+          throw new DocSuiteError(
+            'DEPENDENCY_MISSING',
+            'PDF metadata is unavailable because the "poppler" system dependency is not installed.'
+          )
         }
-        const pageResults: ExtractionResult[] = []
+        return parsePdfInfo(await new AbortablePoppler(signal, password).pdfInfo(filePath, { printIsoDates: true }))
+      case '.docx':
+      case '.xlsx':
+      case '.pptx':
+        return readOfficeMetadata(filePath, format)
+      case '.xls':
+        return readXlsMetadata(filePath, password)
+      case '.eml':
+      case '.msg':
+        return readEmailMetadata(filePath, format)
+      case '.zip':
+        // Archives have no document properties; their entries carry their own
+        return { format }
+      default:
+        throw new DocSuiteError('UNSUPPORTED_FORMAT', `DocSuite: metadata is not supported for "${format}"`)
+    }
+  }
 
-        // START: New Full-Page Image Logic
-        if (fullPageImage) {
-          // Use a stable, non-randomized local temp directory to avoid environmental issues.
-          const localTmpRoot = path.resolve(__dirname, '..', '.tmp');
-          await fs.mkdir(localTmpRoot, { recursive: true });
-          
-          // Use a predictable but unique filename within the stable temp directory.
-          const outputPrefix = path.join(localTmpRoot, `cairo-output-${randomBytes(8).toString('hex')}-p${pageNum}`);
-          
-          try {
-            await poppler.pdfToCairo(filePath, outputPrefix, {
-              firstPageToConvert: pageNum,
-              lastPageToConvert: pageNum,
-              jpegFile: true,
-              jpegOptions: 'quality=95,progressive=n,optimize=n',
-              resolutionXYAxis: 150,
-              scalePageTo: 1080,
-              cropBox: true,
-              singleFile: true,
-              antialias: 'good'
-            })
+  /**
+   * Metadata result for `ExtractionOptions.metadata`, or an error result if the properties cannot be read
+   */
+  async #metadataResult(
+    filePath: string,
+    format: string,
+    options: Pick<ExtractionOptions, 'signal' | 'password'>
+  ): Promise<ExtractionResult> {
+    const fileName = path.basename(filePath)
+    try {
+      return { type: 'metadata', fileName, page: 1, metadata: await this.#readMetadata(filePath, format, options) }
+    } catch (e) {
+      options.signal?.throwIfAborted()
+      const fallback = 'An unknown error occurred while reading the document metadata.'
+      return { type: null, fileName, page: 1, ...DocSuite.#errorFields(e, 'CORRUPT_FILE', fallback, options.password) }
+    }
+  }
 
-            const jpegPath = `${outputPrefix}.jpg`;
-            
-            // The external tool might fail silently. We must verify the file was created.
-            try {
-              await fs.access(jpegPath);
-            } catch (e) {
-              throw new Error('pdftocairo failed to create output file.');
-            }
+  /**
+   * Collect the input into a Buffer
+   * @param maxBytes - Throws a RangeError once the input is larger; streams are destroyed without being read further
+   */
+  static async #toBuffer(input: Buffer | Uint8Array | Readable, maxBytes = Infinity): Promise<Buffer> {
+    const tooLarge = () => new RangeError(`DocSuite: input exceeds the maxBytes limit of ${maxBytes} bytes`)
 
-            const imageBuffer = await fs.readFile(jpegPath);
-            await fs.rm(jpegPath, { force: true }); // Clean up immediately
-
-            if (imageBuffer.length > 0) {
-              const reEncodedBuffer = await sharp(imageBuffer)
-                .jpeg({
-                  quality: 90,
-                  progressive: false, // Force baseline JPEG
-                  mozjpeg: true // Use mozjpeg encoder for better compatibility
-                })
-                .toColorspace('srgb') // Force sRGB color space
-                .toBuffer()
-              const base64Image = reEncodedBuffer.toString('base64')
-              pageResults.push({
-                type: 'image',
-                fileName,
-                page: pageNum,
-                contents: `data:image/jpeg;base64,${base64Image}`,
-                isFullPage: true // Signal this is a full-page image
-              })
-            }
-          } catch (cairoError) {
-            const errorMessage = `pdfToCairo failed for page ${pageNum}. The PDF may be incompatible or the environment may have an issue with the Poppler binary.`;
-            console.error(errorMessage, { originalError: cairoError });
-            pageResults.push({
-              type: null,
-              fileName,
-              page: pageNum,
-              error: errorMessage,
-            });
-          }
-        }
-        // END: New Full-Page Image Logic
-        
-        try {
-          // 1. Extract text from the page
-          const text = await poppler.pdfToText(filePath, undefined, {
-            firstPageToConvert: pageNum,
-            lastPageToConvert: pageNum
-          })
+    if (Buffer.isBuffer(input) || input instanceof Uint8Array) {
+      if (input.byteLength > maxBytes) {
+        throw tooLarge()
+      }
+      return Buffer.isBuffer(input) ? input : Buffer.from(input.buffer, input.byteOffset, input.byteLength)
+    }
 
-          if (text.trim().length > 0) {
-            pageResults.push({
-              type: 'text',
-              fileName,
-              page: pageNum,
-              contents: text.trim()
-            })
-          }
+    const chunks: Buffer[] = []
+    let size = 0
+    for await (const chunk of input) {
+      const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : Buffer.from(chunk)
+      size += buffer.length
+      if (size > maxBytes) {
+        input.destroy()
+        throw tooLarge()
+      }
+      chunks.push(buffer)
+    }
+    return Buffer.concat(chunks)
+  }
 
-          // 2. Extract images from the page
-          const localTmpRoot = path.resolve(__dirname, '..', '.tmp');
-          await fs.mkdir(localTmpRoot, { recursive: true });
-          
-          const imagePrefix = path.join(localTmpRoot, `pdf-images-${randomBytes(8).toString('hex')}-p${pageNum}`);
-          
-          try {
-            const imageOptions: any = {
-              firstPageToConvert: pageNum,
-              lastPageToConvert: pageNum
-            }
+  /**
+   * Internal method to add or replace a post-processor stage
+   */
+  #setPostProcessor(extension: string, input: PostProcessorInput, name = DEFAULT_STAGE, order = 0): void {
+    const stage: PostProcessorContext =
+      typeof input === 'function'
+        ? { name, processor: input, order }
+        : { name, processor: input.handler, context: input.context, order }
 
-            switch (imageFormat) {
-              case 'native':
-                imageOptions.allFiles = true
-                break
-              case 'png':
-                imageOptions.pngFile = true
-                break
-              case 'jpeg':
-              default:
-                imageOptions.jpegFile = true
-                break
-            }
+    const chain = (this.#postProcessors.get(extension) ?? []).filter((existing) => existing.name !== name)
+    this.#postProcessors.set(extension, [...chain, stage])
+  }
 
-            await poppler.pdfImages(filePath, imagePrefix, imageOptions);
-
-            const files = await fs.readdir(localTmpRoot);
-            const imageFiles = files.filter((f) => f.startsWith(path.basename(imagePrefix)));
-
-            for (const imageFile of imageFiles) {
-              const imagePath = path.join(localTmpRoot, imageFile);
-              const imageBuffer = await fs.readFile(imagePath);
-              await fs.rm(imagePath, { force: true }); // Clean up immediately
-
-              if (imageBuffer.length === 0) {
-                console.log({ level: 'warn', msg: `Skipping empty image file extracted from PDF: ${imageFile}` })
-                continue // Skip empty/corrupted files
-              }
-              const base64Image = imageBuffer.toString('base64')
-              const imageExtension = path.extname(imageFile).slice(1).toLowerCase()
-              
-              let mimeType = 'image/jpeg' // Default
-              switch (imageExtension) {
-                case 'png':
-                  mimeType = 'image/png'
-                  break
-                case 'jpg':
-                case 'jpeg':
-                  mimeType = 'image/jpeg'
-                  break
-                case 'tif':
-                case 'tiff':
-                  mimeType = 'image/tiff'
-                  break
-                case 'jp2':
-                  mimeType = 'image/jp2'
-                  break
-              }
-
-              pageResults.push({
-                type: 'image',
-                fileName,
-                page: pageNum,
-                contents: `data:${mimeType};base64,${base64Image}`
-              })
-            }
-          } finally {
-            // The individual files are cleaned up as they are processed.
-          }
+  /**
+   * Wildcard and format stages for a chain key, plus any per-call stages, in execution order
+   */
+  #resolveChain(key: string, overrides?: PostProcessorOverrides): PostProcessorContext[] {
+    const skip = new Set(overrides?.skip ?? [])
+    const added = (overrides?.add ?? []).map((stage) => ({
+      name: stage.name,
+      processor: stage.handler,
+      context: stage.context,
+      order: stage.order ?? 0
+    }))
+    const chain = [
+      ...(this.#postProcessors.get(ALL_FORMATS) ?? []),
+      ...(key === ALL_FORMATS ? [] : this.#postProcessors.get(key) ?? []),
+      ...added
+    ]
 
-          // 3. Handle pages with no content
-          if (pageResults.length === 0) {
-            pageResults.push({
-              type: 'text',
-              fileName,
-              page: pageNum,
-              contents: ''
-            })
-          }
-          
-          results.push(...pageResults)
+    // Array#sort is stable, so equal orders keep wildcard → format → per-call insertion order
+    return chain.filter((stage) => !skip.has(stage.name)).sort((a, b) => a.order - b.order)
+  }
 
-        } catch (pageError) {
-          // Error processing individual page
-          const error = pageError instanceof Error ? pageError.message : `Error processing page ${pageNum}`
-          results.push({
-            type: null,
-            fileName,
-            page: pageNum,
-            error
-          })
+  /**
+   * Run the post-processor chain for the given extension.
+   * A failing stage is skipped: the chain continues with that stage's input. The failure is added as a
+   * POSTPROCESSOR_FAILED error result, and as a warning with the stage name on the results it was skipped for.
+   * @param fileName - Reported on the error results
+   */
+  async #applyPostProcessors(
+    ext: string,
+    fileName: string,
+    results: ExtractionResult[],
+    overrides: PostProcessorOverrides | undefined,
+    info: PostProcessorInfo
+  ): Promise<ExtractionResult[]> {
+    let current = results
+    const failures: ExtractionResult[] = []
+
+    for (const stage of this.#resolveChain(ext, overrides)) {
+      try {
+        // Call the processor with proper context
+        current = stage.context
+          ? await stage.processor.call(stage.context, current, info)
+          : await stage.processor(current, info)
+      } catch (error) {
+        const message = `Post-processor "${stage.name}" for ${ext} failed: ${error instanceof Error ? error.message : String(error)}`
+        this.#logger.error(message, error)
+        for (const result of current) {
+          result.warnings = [...(result.warnings ?? []), { code: 'POSTPROCESSOR_FAILED', message, stage: stage.name }]
         }
+        failures.push({
+          type: null,
+          fileName,
+          page: current[0]?.page ?? 1,
+          code: 'POSTPROCESSOR_FAILED',
+          error: message
+        })
       }
+    }
 
-      return results
-    } catch (e) {
-      const error = e instanceof Error ? e.message : 'An unknown error occurred while parsing the .pdf file.'
-      return [
-        {
+    return [...current, ...failures]
+  }
+
+  /**
+   * Error result for a file larger than `maxBytes`, or null if it is within the limit
+   */
+  static async #checkMaxBytes(filePath: string, maxBytes?: number): Promise<ExtractionResult | null> {
+    if (maxBytes === undefined) {
+      return null
+    }
+    const { size } = await fs.stat(filePath)
+    return size > maxBytes
+      ? {
           type: null,
-          fileName,
+          fileName: path.basename(filePath),
           page: 1,
-          error
+          code: 'INPUT_TOO_LARGE',
+          error: `DocSuite: input exceeds the maxBytes limit of ${maxBytes} bytes`
         }
-      ]
-    }
+      : null
   }
 
-  /* ---------- post-processor configuration ---------- */
+  static #isAsyncIterable<T>(value: unknown): value is AsyncIterable<T> {
+    return typeof value === 'object' && value !== null && Symbol.asyncIterator in value
+  }
 
   /**
-   * Set a post-processor for DOCX files
-   * @param input - Function or object with handler and context
+   * Convert the raw bytes of image results to the requested output. Returns copies of the results,
+   * so the raw results can be cached. Image results without `data`, such as data URIs from custom
+   * extractors, are left as they are.
    */
-  static setDocxPostProcessor(input: PostProcessorInput): void {
-    this.#setPostProcessor('.docx', input)
+  static async #outputImages(
+    results: ExtractionResult[],
+    output: ExtractionOptions['imageOutput'] = 'dataUri'
+  ): Promise<ExtractionResult[]> {
+    const counts = new Map<number, number>()
+    const converted: ExtractionResult[] = []
+    for (const result of results) {
+      if (output === 'buffer' || result.type !== 'image' || !result.data) {
+        converted.push({ ...result })
+        continue
+      }
+      const { data, ...image } = result
+      if (output === 'dataUri') {
+        converted.push({ ...image, contents: `data:${result.mimeType};base64,${data.toString('base64')}` })
+      } else {
+        // <name>-p<page>-<n>-<hash>.<ext>, or <name>-p<page>-page-<hash>.<ext> for full-page images. The
+        // content hash keeps documents with the same name, e.g. entries of an archive, from overwriting
+        // each other's images; a file with the same name has the same contents.
+        const count = (counts.get(result.page) ?? 0) + 1
+        counts.set(result.page, count)
+        const suffix = result.isFullPage ? 'page' : String(count)
+        const hash = createHash('sha256').update(data).digest('hex').slice(0, 12)
+        const imageName = `${path.parse(result.fileName).name}-p${result.page}-${suffix}-${hash}`
+        const filePath = path.resolve(output.dir, imageName + DocSuite.#imageExtension(result.mimeType))
+        await fs.mkdir(output.dir, { recursive: true })
+        await fs.writeFile(filePath, data)
+        converted.push({ ...image, filePath })
+      }
+    }
+    return converted
   }
 
   /**
-   * Set a post-processor for XLSX/XLS files
-   * @param input - Function or object with handler and context
+   * File extension for an image MIME type, e.g. ".jpg" for image/jpeg and ".emf" for image/x-emf
    */
-  static setXlsxPostProcessor(input: PostProcessorInput): void {
-    this.#setPostProcessor('.xlsx', input)
-    this.#setPostProcessor('.xls', input)
+  static #imageExtension(mimeType = 'application/octet-stream'): string {
+    const subtype = mimeType.split('/')[1]?.replace(/^x-/, '') ?? 'bin'
+    return `.${{ jpeg: 'jpg', 'svg+xml': 'svg', tiff: 'tif', 'octet-stream': 'bin' }[subtype] ?? subtype}`
   }
 
   /**
-   * Set a post-processor for PPTX files
-   * @param input - Function or object with handler and context
+   * Whether a Poppler or SheetJS error means the document is encrypted
    */
-  static setPptxPostProcessor(input: PostProcessorInput): void {
-    this.#setPostProcessor('.pptx', input)
+  static #isPasswordError(message: string): boolean {
+    return /incorrect password|password-protected|password is incorrect/i.test(message)
   }
 
   /**
-   * Set a post-processor for PDF files
-   * @param input - Function or object with handler and context
+   * Error fields for an encrypted document: ENCRYPTED without a password, INVALID_PASSWORD with a wrong one
    */
-  static setPdfPostProcessor(input: PostProcessorInput): void {
-    this.#setPostProcessor('.pdf', input)
+  static #encryptionError(password?: string): { code: ErrorCode; error: string } {
+    return password === undefined
+      ? { code: 'ENCRYPTED', error: 'DocSuite: the document is encrypted; pass the "password" option to open it' }
+      : { code: 'INVALID_PASSWORD', error: 'DocSuite: the password for the encrypted document is incorrect' }
   }
 
   /**
-   * Generic setter for any file extension
-   * @param extension - File extension (with or without leading dot)
-   * @param input - Function or object with handler and context
+   * Error fields for a caught exception: the code of a DocSuiteError, ENCRYPTED or INVALID_PASSWORD
+   * for a password error, or `code` otherwise
+   * @param fallback - Message for thrown values that are not errors
    */
-  static setPostProcessor(extension: string, input: PostProcessorInput): void {
-    // Ensure extension has leading dot
-    const ext = extension.startsWith('.') ? extension : `.${extension}`
-    this.#setPostProcessor(ext.toLowerCase(), input)
+  static #errorFields(
+    e: unknown,
+    code: ErrorCode,
+    fallback: string,
+    password?: string
+  ): { code: ErrorCode; error: string } {
+    if (e instanceof DocSuiteError) {
+      return { code: e.code, error: e.message }
+    }
+    const error = e instanceof Error ? e.message : fallback
+    return DocSuite.#isPasswordError(error) ? DocSuite.#encryptionError(password) : { code, error }
   }
 
   /**
-   * Clear a specific post-processor
-   * @param extension - File extension to clear
+   * DocSuiteError for an error result. Results from custom extractors without a code get EXTRACTOR_FAILED.
    */
-  static clearPostProcessor(extension: string): void {
-    const ext = extension.startsWith('.') ? extension : `.${extension}`
-    this.#postProcessors.delete(ext.toLowerCase())
+  static #toError(result: ExtractionResult): DocSuiteError {
+    return new DocSuiteError(result.code ?? 'EXTRACTOR_FAILED', result.error ?? 'Unknown extraction error', {
+      fileName: result.fileName,
+      page: result.page
+    })
   }
 
   /**
-   * Clear all post-processors
+   * With `throwOnError`, throw the first error result of a batch
    */
-  static clearAllPostProcessors(): void {
-    this.#postProcessors.clear()
+  static #throwOnError(results: ExtractionResult[], options?: ExtractionOptions): void {
+    const failed = options?.throwOnError ? results.find((result) => result.type === null) : undefined
+    if (failed) {
+      throw DocSuite.#toError(failed)
+    }
   }
 
-  /* ---------- private helpers ---------- */
-
   /**
-   * Internal method to set a post-processor
+   * Signal for one call that also aborts after the `timeout` option. `race` rejects as soon as the
+   * timeout passes, without waiting for an extractor that does not stop on abort. `timedOut` tells
+   * the timeout apart from an abort by the caller's own signal; `clear` stops the timer.
    */
-  static #setPostProcessor(extension: string, input: PostProcessorInput): void {
-    if (typeof input === 'function') {
-      this.#postProcessors.set(extension, { processor: input })
-    } else {
-      this.#postProcessors.set(extension, {
-        processor: input.handler,
-        context: input.context
-      })
+  static #deadline(options?: ExtractionOptions): {
+    signal?: AbortSignal
+    race: <T>(promise: Promise<T>) => Promise<T>
+    timedOut: () => boolean
+    clear: () => void
+  } {
+    const signal = options?.signal
+    if (options?.timeout === undefined) {
+      return { signal, race: (promise) => promise, timedOut: () => false, clear: () => {} }
+    }
+
+    const controller = new AbortController()
+    const forward = () => controller.abort(signal?.reason)
+    signal?.addEventListener('abort', forward, { once: true })
+    let expire: (reason: unknown) => void = () => {}
+    const expired = new Promise<never>((_, reject) => {
+      expire = reject
+    })
+    expired.catch(() => {})
+    const timer = setTimeout(() => {
+      const reason = new DOMException('DocSuite: extraction timed out', 'TimeoutError')
+      controller.abort(reason)
+      expire(reason)
+    }, options.timeout)
+    return {
+      signal: controller.signal,
+      race: (promise) => {
+        // The extraction keeps running until it sees the abort; its late rejection is not reported
+        promise.catch(() => {})
+        return Promise.race([promise, expired])
+      },
+      timedOut: () => controller.signal.aborted && !signal?.aborted,
+      clear: () => {
+        clearTimeout(timer)
+        signal?.removeEventListener('abort', forward)
+      }
     }
   }
 
   /**
-   * Apply post-processor if one exists for the given extension
+   * Error result for an extraction stopped by the `timeout` option
    */
-  static async #applyPostProcessor(ext: string, results: ExtractionResult[]): Promise<ExtractionResult[]> {
-    const config = this.#postProcessors.get(ext)
-    if (!config) {
-      return results
+  static #timeoutResult(fileName: string, timeout?: number): ExtractionResult {
+    return {
+      type: null,
+      fileName,
+      page: 1,
+      code: 'TIMEOUT',
+      error: `DocSuite: extraction timed out after ${timeout} ms`
     }
+  }
 
-    try {
-      // Call the processor with proper context
-      const processed = config.context
-        ? await config.processor.call(config.context, results)
-        : await config.processor(results)
+  /**
+   * Pixel size fields of an image result, when the image could be decoded
+   */
+  static #imageSize(image: ProcessedImage): Pick<ExtractionResult, 'width' | 'height'> {
+    return image.width !== undefined && image.height !== undefined ? { width: image.width, height: image.height } : {}
+  }
 
-      return processed
-    } catch (error) {
-      // If post-processor fails, add error to first result and return original
-      console.error(`Post-processor for ${ext} failed:`, error)
-      if (results.length > 0) {
-        results[0].error = `Post-processor error: ${error instanceof Error ? error.message : String(error)}`
+  /**
+   * File name reported in progress events
+   */
+  static #runFileName(input: ExtractionInput, options?: ExtractionOptions): string {
+    return typeof input === 'string' ? path.basename(input) : (DocSuite.#inputFileName(options) ?? 'unknown')
+  }
+
+  /**
+   * Group results into batches of consecutive results on the same page
+   */
+  static #splitPages(results: ExtractionResult[]): ExtractionResult[][] {
+    const pages: ExtractionResult[][] = []
+    for (const result of results) {
+      const last = pages[pages.length - 1]
+      if (last && last[0].page === result.page) {
+        last.push(result)
+      } else {
+        pages.push([result])
       }
-      return results
     }
+    return pages
+  }
+
+  /**
+   * Concatenate the page results of a streaming extractor
+   */
+  static async #collectPages(pages: AsyncIterable<ExtractionResult[]>): Promise<ExtractionResult[]> {
+    const results: ExtractionResult[] = []
+    for await (const page of pages) {
+      results.push(...page)
+    }
+    return results
   }
 
   static #ext(p: string): string {
     return path.extname(p).toLowerCase()
   }
+
+  static #chainKey(key: string): string {
+    return key === ALL_FORMATS ? ALL_FORMATS : DocSuite.#routeKey(key)
+  }
+
+  static #routeKey(key: string): string {
+    return key.includes('/') ? key.toLowerCase() : DocSuite.#normalizeExtension(key)
+  }
+
+  static #normalizeExtension(extension: string): string {
+    const ext = extension.startsWith('.') ? extension : `.${extension}`
+    return ext.toLowerCase()
+  }
 }
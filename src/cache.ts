@@ -0,0 +1,203 @@
+import { createHash, randomBytes } from 'crypto'
+import { createReadStream } from 'fs'
+import fs from 'fs/promises'
+import path from 'path'
+import type { ExtractionResult } from './DocSuite'
+
+/**
+ * Storage for extraction results, keyed by `DocSuite`. Results are stored before post-processing
+ * and image output, with image bytes as Buffers in `data`.
+ */
+export type ResultCache = {
+  get: (key: string) => Promise<ExtractionResult[] | undefined>
+  set: (key: string, results: ExtractionResult[]) => Promise<void>
+}
+
+const VERSION: string = require(path.join(__dirname, '..', 'package.json')).version
+
+/**
+ * In-memory cache that evicts the least recently used entries
+ */
+export class MemoryCache implements ResultCache {
+  readonly #entries = new Map<string, { results: ExtractionResult[]; size: number }>()
+  readonly #maxEntries: number
+  readonly #maxBytes: number
+  #size = 0
+
+  /**
+   * @param options.maxEntries - Documents to keep (default 100)
+   * @param options.maxBytes - Approximate total size of the text and image bytes to keep (default unlimited)
+   */
+  constructor(options: { maxEntries?: number; maxBytes?: number } = {}) {
+    this.#maxEntries = options.maxEntries ?? 100
+    this.#maxBytes = options.maxBytes ?? Infinity
+  }
+
+  async get(key: string): Promise<ExtractionResult[] | undefined> {
+    const entry = this.#entries.get(key)
+    if (!entry) {
+      return undefined
+    }
+    // Re-insert to mark the entry as most recently used
+    this.#entries.delete(key)
+    this.#entries.set(key, entry)
+    return cloneResults(entry.results)
+  }
+
+  async set(key: string, results: ExtractionResult[]): Promise<void> {
+    this.#delete(key)
+    const size = resultsSize(results)
+    if (size > this.#maxBytes) {
+      return
+    }
+
+    this.#entries.set(key, { results: cloneResults(results), size })
+    this.#size += size
+    for (const oldest of this.#entries.keys()) {
+      if (this.#entries.size <= this.#maxEntries && this.#size <= this.#maxBytes) {
+        break
+      }
+      this.#delete(oldest)
+    }
+  }
+
+  clear(): void {
+    this.#entries.clear()
+    this.#size = 0
+  }
+
+  #delete(key: string): void {
+    const entry = this.#entries.get(key)
+    if (entry) {
+      this.#entries.delete(key)
+      this.#size -= entry.size
+    }
+  }
+}
+
+/**
+ * Cache that stores each document's results as a JSON file, for reuse across processes and runs
+ */
+export class FileCache implements ResultCache {
+  readonly #dir: string
+  readonly #maxAge: number
+
+  /**
+   * @param dir - Cache directory, created when the first entry is written
+   * @param options.maxAge - Age in ms after which entries are ignored and removed (default: never)
+   */
+  constructor(dir: string, options: { maxAge?: number } = {}) {
+    this.#dir = path.resolve(dir)
+    this.#maxAge = options.maxAge ?? Infinity
+  }
+
+  async get(key: string): Promise<ExtractionResult[] | undefined> {
+    const filePath = this.#path(key)
+    try {
+      const { mtimeMs } = await fs.stat(filePath)
+      if (Date.now() - mtimeMs > this.#maxAge) {
+        await fs.rm(filePath, { force: true })
+        return undefined
+      }
+      const results: ExtractionResult[] = JSON.parse(await fs.readFile(filePath, 'utf8'))
+      // Image bytes are stored as base64
+      return results.map((result) =>
+        typeof result.data === 'string' ? { ...result, data: Buffer.from(result.data, 'base64') } : result
+      )
+    } catch (e) {
+      // Missing entries, and entries cut short by a crash, are misses
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT' || e instanceof SyntaxError) {
+        return undefined
+      }
+      throw e
+    }
+  }
+
+  async set(key: string, results: ExtractionResult[]): Promise<void> {
+    const filePath = this.#path(key)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+
+    // Write to a temp file and rename, so readers never see a partial entry
+    const tempPath = `${filePath}.${randomBytes(8).toString('hex')}.tmp`
+    const json = JSON.stringify(
+      results.map((result) => (result.data ? { ...result, data: result.data.toString('base64') } : result))
+    )
+    try {
+      await fs.writeFile(tempPath, json)
+      await fs.rename(tempPath, filePath)
+    } finally {
+      await fs.rm(tempPath, { force: true })
+    }
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.#dir, { recursive: true, force: true })
+  }
+
+  /**
+   * Entries are spread over subdirectories by the first two characters of the key
+   */
+  #path(key: string): string {
+    return path.join(this.#dir, key.slice(0, 2), `${key}.json`)
+  }
+}
+
+/**
+ * Cache key for a document: SHA-256 of the DocSuite version, the file contents and `options`.
+ * Object keys are sorted, so the order options were written in does not change the key.
+ * @returns undefined when `options` contain a function (e.g. a custom OCR engine), whose behavior
+ * cannot be part of a key, so the results must not be cached
+ */
+export async function resultCacheKey(filePath: string, options: Record<string, unknown>): Promise<string | undefined> {
+  if (containsFunction(options)) {
+    return undefined
+  }
+  const contents = createHash('sha256')
+  for await (const chunk of createReadStream(filePath)) {
+    contents.update(chunk)
+  }
+
+  return createHash('sha256')
+    .update(stableStringify({ version: VERSION, contents: contents.digest('hex'), options }))
+    .digest('hex')
+}
+
+/**
+ * Deep copy of results, so later changes to the returned or the stored results do not affect each other
+ */
+function cloneResults(results: ExtractionResult[]): ExtractionResult[] {
+  // structuredClone turns Buffers into plain Uint8Arrays
+  return structuredClone(results).map((result) =>
+    result.data
+      ? { ...result, data: Buffer.from(result.data.buffer, result.data.byteOffset, result.data.byteLength) }
+      : result
+  )
+}
+
+function resultsSize(results: ExtractionResult[]): number {
+  return results.reduce((size, result) => size + (result.contents?.length ?? 0) + (result.data?.length ?? 0), 0)
+}
+
+/**
+ * SHA-256 of a secret such as a password, for cache keys that must change with it without
+ * containing it
+ */
+export function secretDigest(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex')
+}
+
+function containsFunction(value: unknown): boolean {
+  if (typeof value === 'function') {
+    return true
+  }
+  return !!value && typeof value === 'object' && Object.values(value).some(containsFunction)
+}
+
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => {
+    if (item && typeof item === 'object' && !Array.isArray(item)) {
+      return Object.fromEntries(Object.entries(item).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+    }
+    return item
+  })
+}
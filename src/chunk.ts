@@ -0,0 +1,376 @@
+import { DocSuiteError } from './errors'
+
+/**
+ * Counts the tokens in a piece of text, e.g. with the tokenizer of the embedding model
+ */
+export type TokenCounter = (text: string) => number
+
+export type ChunkOptions = {
+  maxTokens?: number // Upper bound for each chunk (default 512)
+  overlap?: number // Tokens of trailing text repeated at the start of the next chunk (default 0)
+  // 'paragraph' (default): pack whole paragraphs, splitting only paragraphs that are too long
+  // 'sentence': pack sentences
+  // 'heading': start a new chunk at every Markdown heading, then pack paragraphs within each section
+  strategy?: 'sentence' | 'paragraph' | 'heading'
+  countTokens?: TokenCounter // Defaults to an estimate of 4 characters per token
+}
+
+/**
+ * Piece of extracted text sized for embedding, with the pages it came from
+ */
+export type DocumentChunk = {
+  fileName: string
+  type: 'text' | 'csv' // Type of the results the chunk was built from
+  page: number // First page, sheet or slide of the chunk
+  pageEnd: number // Last page, sheet or slide; equal to `page` unless the chunk spans pages
+  index: number // 1-based position of the chunk in the output
+  contents: string
+  tokens: number
+  sheetName?: string // For csv chunks of a spreadsheet
+  path?: string // Location inside archives and emails, from the results' `path`
+}
+
+/**
+ * Minimal shape of an extraction result that can be chunked
+ */
+type ChunkSource = {
+  type: string | null
+  fileName: string
+  page: number
+  contents?: string
+  sheetName?: string
+  path?: string
+}
+
+/**
+ * Unit of text that is never split further, with the separator that joins it to the previous unit
+ */
+type Unit = { text: string; page: number; separator: string; tokens: number; section?: boolean }
+
+/**
+ * Sentence or word run with the whitespace that separated it from the previous one
+ */
+type Piece = { text: string; separator: string }
+
+const defaultCountTokens: TokenCounter = (text) => Math.ceil(text.length / 4)
+
+/**
+ * Split text and CSV results into chunks of at most `maxTokens` tokens.
+ * Text from consecutive results of the same file is packed together, so a chunk may span pages.
+ * CSV results are chunked per result by whole rows, with the header row repeated in every chunk.
+ * Other result types (images, errors, JSON, metadata) are skipped.
+ * @throws DocSuiteError (INVALID_INPUT) when `maxTokens` is not positive or `overlap` is negative
+ */
+export function chunkResults(results: ChunkSource[], options: ChunkOptions = {}): DocumentChunk[] {
+  const { maxTokens = 512, overlap = 0, strategy = 'paragraph', countTokens = defaultCountTokens } = options
+  if (!(maxTokens > 0)) {
+    throw new DocSuiteError('INVALID_INPUT', `chunk: maxTokens must be greater than 0, got ${maxTokens}`)
+  }
+  if (!(overlap >= 0)) {
+    throw new DocSuiteError('INVALID_INPUT', `chunk: overlap must be 0 or greater, got ${overlap}`)
+  }
+
+  const chunks: Omit<DocumentChunk, 'index'>[] = []
+  let textRun: { fileName: string; path?: string; units: Unit[] } | null = null
+
+  const flushText = () => {
+    if (textRun) {
+      const packed = packUnits(textRun.fileName, textRun.units, maxTokens, Math.min(overlap, maxTokens - 1))
+      const path = textRun.path
+      chunks.push(...(path ? packed.map((chunk) => ({ ...chunk, path })) : packed))
+      textRun = null
+    }
+  }
+
+  for (const result of results) {
+    if (!result.contents || (result.type !== 'text' && result.type !== 'csv')) {
+      continue
+    }
+
+    if (result.type === 'csv') {
+      flushText()
+      chunks.push(...chunkCsv(result, maxTokens, countTokens))
+      continue
+    }
+
+    // Entries of an archive may share a file name, so the path tells documents apart
+    if (textRun && (textRun.fileName !== result.fileName || textRun.path !== result.path)) {
+      flushText()
+    }
+    textRun ??= { fileName: result.fileName, path: result.path, units: [] }
+    textRun.units.push(...textUnits(result.contents, result.page, strategy, maxTokens, countTokens))
+  }
+  flushText()
+
+  return chunks.map((chunk, i) => ({ ...chunk, index: i + 1 }))
+}
+
+/**
+ * Greedily pack units into chunks. Overlap repeats whole trailing units of the previous chunk.
+ */
+function packUnits(fileName: string, units: Unit[], maxTokens: number, overlap: number) {
+  const chunks: Omit<DocumentChunk, 'index'>[] = []
+  let current: Unit[] = []
+  let currentTokens = 0
+  let hasNewText = false
+
+  const flush = () => {
+    if (!hasNewText) {
+      return
+    }
+    const contents = current.map((unit, i) => (i === 0 ? unit.text : unit.separator + unit.text)).join('')
+    chunks.push({
+      fileName,
+      type: 'text',
+      page: Math.min(...current.map((unit) => unit.page)),
+      pageEnd: Math.max(...current.map((unit) => unit.page)),
+      contents,
+      tokens: currentTokens
+    })
+  }
+
+  for (const unit of units) {
+    const fits = currentTokens + unit.tokens <= maxTokens
+    if (current.length > 0 && (!fits || unit.section)) {
+      flush()
+      // Carry trailing units into the next chunk, except across section boundaries
+      const carried: Unit[] = []
+      let carriedTokens = 0
+      for (let i = current.length - 1; i >= 0 && !unit.section; i--) {
+        if (
+          carriedTokens + current[i].tokens > overlap ||
+          carriedTokens + current[i].tokens + unit.tokens > maxTokens
+        ) {
+          break
+        }
+        carried.unshift(current[i])
+        carriedTokens += current[i].tokens
+      }
+      current = carried
+      currentTokens = carriedTokens
+      hasNewText = false
+    }
+    current.push(unit)
+    currentTokens += unit.tokens
+    hasNewText = true
+  }
+  flush()
+
+  return chunks
+}
+
+/**
+ * Break the text of one result into units no larger than `maxTokens` where possible:
+ * sections (heading strategy), then paragraphs, then lines, then sentences, then words.
+ * Markdown table rows and fenced code blocks are never split.
+ */
+function textUnits(
+  text: string,
+  page: number,
+  strategy: NonNullable<ChunkOptions['strategy']>,
+  maxTokens: number,
+  countTokens: TokenCounter
+): Unit[] {
+  const units: Unit[] = []
+  const add = (piece: string, separator: string, section = false) => {
+    units.push({ text: piece, page, separator, tokens: countTokens(piece), ...(section ? { section } : {}) })
+  }
+
+  const addSentences = (lines: string, separator: string, section = false) => {
+    splitSentences(lines).forEach((sentence, i) => {
+      const sentenceSeparator = i === 0 ? separator : sentence.separator
+      const sentenceSection = section && i === 0
+      if (countTokens(sentence.text) <= maxTokens) {
+        add(sentence.text, sentenceSeparator, sentenceSection)
+        return
+      }
+      packWords(sentence.text, maxTokens, countTokens).forEach((piece, j) =>
+        add(piece.text, j === 0 ? sentenceSeparator : piece.separator, sentenceSection && j === 0)
+      )
+    })
+  }
+
+  splitParagraphs(text).forEach((paragraph) => {
+    const section = strategy === 'heading' && /^#{1,6}\s/.test(paragraph)
+    if (strategy !== 'sentence' && countTokens(paragraph) <= maxTokens) {
+      add(paragraph, '\n\n', section)
+      return
+    }
+    lineBlocks(paragraph).forEach((block, i) => {
+      const separator = i === 0 ? '\n\n' : '\n'
+      if (block.atomic) {
+        add(block.text, separator, section && i === 0)
+      } else {
+        addSentences(block.text, separator, section && i === 0)
+      }
+    })
+  })
+
+  return units
+}
+
+/**
+ * Split text at blank lines, except inside fenced code blocks
+ */
+function splitParagraphs(text: string): string[] {
+  const paragraphs: string[] = []
+  let lines: string[] = []
+  let fenced = false
+  for (const line of text.split(/\r?\n/)) {
+    if (isFence(line)) {
+      fenced = !fenced
+    }
+    if (!fenced && line.trim() === '') {
+      paragraphs.push(lines.join('\n'))
+      lines = []
+    } else {
+      lines.push(line)
+    }
+  }
+  paragraphs.push(lines.join('\n'))
+  return paragraphs.map((paragraph) => paragraph.trim()).filter((paragraph) => paragraph.length > 0)
+}
+
+/**
+ * Split a paragraph into Markdown table rows and fenced code blocks, which are kept whole, and
+ * runs of other lines
+ */
+function lineBlocks(paragraph: string): { text: string; atomic: boolean }[] {
+  const blocks: { text: string; atomic: boolean }[] = []
+  let prose: string[] = []
+  let fence: string[] | null = null
+
+  const flushProse = () => {
+    if (prose.length > 0) {
+      blocks.push({ text: prose.join('\n'), atomic: false })
+      prose = []
+    }
+  }
+
+  for (const line of paragraph.split('\n')) {
+    if (fence) {
+      fence.push(line)
+      if (isFence(line)) {
+        blocks.push({ text: fence.join('\n'), atomic: true })
+        fence = null
+      }
+    } else if (isFence(line)) {
+      flushProse()
+      fence = [line]
+    } else if (/^\s*\|/.test(line)) {
+      flushProse()
+      blocks.push({ text: line, atomic: true })
+    } else {
+      prose.push(line)
+    }
+  }
+  flushProse()
+  if (fence) {
+    // Unclosed fence
+    blocks.push({ text: fence.join('\n'), atomic: true })
+  }
+  return blocks
+}
+
+function isFence(line: string): boolean {
+  return /^\s*(```|~~~)/.test(line)
+}
+
+/**
+ * Split text after sentence-ending punctuation followed by whitespace. Each sentence keeps the
+ * whitespace before it as its separator: a line break if there was one, otherwise a space.
+ */
+function splitSentences(text: string): Piece[] {
+  return splitKeepingSeparators(text, /(?<=[.!?]["')\]]*)(\s+)/)
+}
+
+/**
+ * Pack the words of an over-long sentence into pieces of at most `maxTokens`, keeping the line
+ * breaks between words. A single word longer than `maxTokens` becomes its own piece.
+ */
+function packWords(sentence: string, maxTokens: number, countTokens: TokenCounter): Piece[] {
+  const pieces: Piece[] = []
+  for (const word of splitKeepingSeparators(sentence, /(\s+)/)) {
+    const last = pieces[pieces.length - 1]
+    const candidate = last ? last.text + word.separator + word.text : ''
+    if (last && countTokens(candidate) <= maxTokens) {
+      last.text = candidate
+    } else {
+      pieces.push({ ...word })
+    }
+  }
+  return pieces
+}
+
+/**
+ * Split text at a pattern with one capturing group around the whitespace between pieces
+ */
+function splitKeepingSeparators(text: string, pattern: RegExp): Piece[] {
+  const parts = text.split(pattern)
+  const pieces: Piece[] = []
+  for (let i = 0; i < parts.length; i += 2) {
+    const piece = parts[i].trim()
+    if (piece) {
+      const separator = pieces.length === 0 ? '' : parts[i - 1].includes('\n') ? '\n' : ' '
+      pieces.push({ text: piece, separator })
+    }
+  }
+  return pieces
+}
+
+/**
+ * Chunk one CSV result by whole rows, repeating the header row at the top of every chunk.
+ * A row that does not fit even with only the header becomes its own chunk.
+ */
+function chunkCsv(result: ChunkSource, maxTokens: number, countTokens: TokenCounter) {
+  const [header, ...rows] = splitCsvRows(result.contents ?? '')
+  const chunks: Omit<DocumentChunk, 'index'>[] = []
+  let current: string[] = []
+
+  const flush = () => {
+    const contents = [header, ...current].join('\n')
+    chunks.push({
+      fileName: result.fileName,
+      type: 'csv',
+      page: result.page,
+      pageEnd: result.page,
+      contents,
+      tokens: countTokens(contents),
+      ...(result.sheetName ? { sheetName: result.sheetName } : {}),
+      ...(result.path ? { path: result.path } : {})
+    })
+    current = []
+  }
+
+  for (const row of rows) {
+    if (current.length > 0 && countTokens([header, ...current, row].join('\n')) > maxTokens) {
+      flush()
+    }
+    current.push(row)
+  }
+  if (current.length > 0 || chunks.length === 0) {
+    flush()
+  }
+
+  return chunks
+}
+
+/**
+ * Split CSV text into rows, keeping line breaks inside quoted fields
+ */
+function splitCsvRows(csv: string): string[] {
+  const rows: string[] = []
+  let start = 0
+  let quoted = false
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i]
+    if (char === '"') {
+      quoted = !quoted
+    } else if (char === '\n' && !quoted) {
+      rows.push(csv.slice(start, i).replace(/\r$/, ''))
+      start = i + 1
+    }
+  }
+  rows.push(csv.slice(start).replace(/\r$/, ''))
+  return rows.filter((row) => row.length > 0)
+}
@@ -0,0 +1,451 @@
+#!/usr/bin/env node
+import fs from 'fs/promises'
+import path from 'path'
+import { execFile } from 'child_process'
+import { parseArgs, promisify } from 'util'
+import { DocSuite, DocSuiteLogger, ExtractionOptions, ExtractionResult, PdfExtractionOptions } from './DocSuite'
+import { DocSuiteError } from './errors'
+import { globMatcher } from './glob'
+import { parsePageRanges } from './pages'
+import { mapWithConcurrency } from './pool'
+
+const execFileAsync = promisify(execFile)
+
+const USAGE = `Usage: docsuite <file|directory>... [options]
+       docsuite doctor
+
+Extract documents to JSON, JSONL or Markdown. Directories are searched recursively.
+
+Output:
+  -f, --format <format>       json (default), jsonl or markdown
+  -o, --out <dir>             Write one file per document to <dir>, mirroring the input tree (default: stdout)
+      --image-dir <dir>       Write image results to files in <dir> instead of data URIs
+                              (Markdown output only includes images written to files)
+
+Selection:
+      --include <glob>        Extract matching files found in directories (repeatable; default: every
+                              supported extension). Globs without "/" match the file name.
+      --exclude <glob>        Skip matching files and directories (repeatable)
+  -p, --pages <range>         Pages, sheets or slides to extract, e.g. "1-5,10"
+      --max-pages <n>         Extract at most this many pages, sheets or slides per document
+
+Extraction:
+  -c, --concurrency <n>       Documents extracted in parallel (default 1)
+      --password <password>   Password for encrypted documents
+      --timeout <ms>          Stop each extraction after this many milliseconds
+      --docx-format <format>  text (default), markdown or blocks
+      --xlsx-format <format>  csv (default), markdown, json or cells
+      --pdf-image-format <f>  native (default), jpeg or png
+      --no-pdf-images         Skip embedded PDF images
+      --pdf-full-page-image   Render every PDF page as an image
+      --pdf-concurrency <n>   PDF pages processed in parallel per document (default 1)
+      --pdf-layout            Order PDF text by layout and include text blocks with bounding boxes
+      --strip-headers         Leave running PDF headers and footers out of the text (implies --pdf-layout)
+      --pdf-tables            Add a csv result for every table detected on PDF pages
+      --pdf-ocr               Recognize text on PDF pages without a text layer (requires tesseract.js)
+      --ocr-language <lang>   OCR language (default eng)
+
+  -v, --verbose               Log DocSuite warnings
+  -h, --help                  Show this help
+      --version               Show the version
+
+Exits with 1 if any document has an error result and 2 on invalid arguments.
+"docsuite doctor" reports the system dependencies and exits with 1 if Poppler is missing.`
+
+const OUTPUT_EXTENSIONS = { json: '.json', jsonl: '.jsonl', markdown: '.md' }
+
+type OutputFormat = keyof typeof OUTPUT_EXTENSIONS
+
+/**
+ * Document found on the command line
+ */
+type InputFile = {
+  filePath: string
+  relativePath: string // Path below the directory argument it was found in, or the file name; `/`-separated
+}
+
+/**
+ * Invalid command-line arguments; reported with exit code 2
+ */
+class UsageError extends Error {}
+
+/**
+ * Run the CLI
+ * @param argv - Arguments after the executable and script path
+ * @returns Process exit code
+ */
+export async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', short: 'f', default: 'json' },
+      out: { type: 'string', short: 'o' },
+      'image-dir': { type: 'string' },
+      include: { type: 'string', multiple: true },
+      exclude: { type: 'string', multiple: true },
+      pages: { type: 'string', short: 'p' },
+      'max-pages': { type: 'string' },
+      concurrency: { type: 'string', short: 'c' },
+      password: { type: 'string' },
+      timeout: { type: 'string' },
+      'docx-format': { type: 'string' },
+      'xlsx-format': { type: 'string' },
+      'pdf-image-format': { type: 'string' },
+      'no-pdf-images': { type: 'boolean' },
+      'pdf-full-page-image': { type: 'boolean' },
+      'pdf-concurrency': { type: 'string' },
+      'pdf-layout': { type: 'boolean' },
+      'strip-headers': { type: 'boolean' },
+      'pdf-tables': { type: 'boolean' },
+      'pdf-ocr': { type: 'boolean' },
+      'ocr-language': { type: 'string' },
+      verbose: { type: 'boolean', short: 'v' },
+      help: { type: 'boolean', short: 'h' },
+      version: { type: 'boolean' }
+    }
+  })
+
+  if (values.help) {
+    console.log(USAGE)
+    return 0
+  }
+  if (values.version) {
+    console.log(require(path.join(__dirname, '..', 'package.json')).version)
+    return 0
+  }
+
+  const docsuite = new DocSuite({ logger: cliLogger(values.verbose ?? false) })
+
+  if (positionals[0] === 'doctor') {
+    return doctor(docsuite)
+  }
+  if (positionals.length === 0) {
+    throw new UsageError('no input files or directories')
+  }
+
+  const format = oneOf('--format', values.format, ['json', 'jsonl', 'markdown'] as const) ?? 'json'
+  const concurrency = integer('--concurrency', values.concurrency) ?? 1
+  const options: ExtractionOptions = {
+    pages: pageRanges(values.pages),
+    maxPages: integer('--max-pages', values['max-pages']),
+    password: values.password,
+    timeout: integer('--timeout', values.timeout),
+    docx: { format: oneOf('--docx-format', values['docx-format'], ['text', 'markdown', 'blocks'] as const) },
+    xlsx: { format: oneOf('--xlsx-format', values['xlsx-format'], ['csv', 'markdown', 'json', 'cells'] as const) },
+    pdf: pdfOptions(values)
+  }
+
+  await docsuite.checkDependencies()
+  const files = await findFiles(positionals, docsuite, values.include ?? [], values.exclude ?? [])
+  if (files.length === 0) {
+    console.error('docsuite: no matching documents found')
+    return 1
+  }
+
+  const output = values.out ? undefined : stdoutWriter(format)
+  const failures: { file: InputFile; error: ExtractionResult }[] = []
+
+  // Results are written in input order while the next documents are extracted
+  const extracted = mapWithConcurrency(files, concurrency, async (file) => {
+    const imageDir = values['image-dir']
+    const results = await docsuite.extract(file.filePath, {
+      ...options,
+      ...(imageDir ? { imageOutput: { dir: path.join(imageDir, path.dirname(file.relativePath)) } } : {})
+    })
+    return { file, results }
+  })
+
+  for await (const { file, results } of extracted) {
+    const error = results.find((result) => result.type === null)
+    if (error) {
+      failures.push({ file, error })
+    }
+    if (output) {
+      output.write(file, results)
+    } else {
+      const outFile = path.join(values.out!, file.relativePath + OUTPUT_EXTENSIONS[format])
+      await fs.mkdir(path.dirname(outFile), { recursive: true })
+      await fs.writeFile(outFile, render(format, file, results, path.dirname(outFile)))
+    }
+  }
+  output?.end()
+
+  console.error(
+    `docsuite: ${files.length} document${files.length === 1 ? '' : 's'}, ` +
+      `${files.length - failures.length} succeeded, ${failures.length} failed`
+  )
+  for (const { file, error } of failures) {
+    console.error(`  ${file.filePath}: ${error.code ? `[${error.code}] ` : ''}${error.error}`)
+  }
+  return failures.length > 0 ? 1 : 0
+}
+
+/**
+ * Report the system dependencies of the extractors
+ * @returns 1 if Poppler is missing, otherwise 0
+ */
+async function doctor(docsuite: DocSuite): Promise<number> {
+  const checks: [string, boolean, string][] = [
+    ['poppler', await docsuite.checkDependencies(), 'PDF extraction and page rendering (required for PDF)'],
+    ['libreoffice', await commandAvailable('soffice', ['--version']), 'Full-slide images of presentations (optional)'],
+    ['tesseract.js', moduleAvailable('tesseract.js'), 'OCR of scanned PDF pages (optional)']
+  ]
+  for (const [name, found, purpose] of checks) {
+    console.log(`${name.padEnd(14)}${(found ? 'found' : 'missing').padEnd(9)}${purpose}`)
+  }
+  return checks[0][1] ? 0 : 1
+}
+
+async function commandAvailable(command: string, args: string[]): Promise<boolean> {
+  try {
+    await execFileAsync(command, args, { timeout: 30000 })
+    return true
+  } catch {
+    return false
+  }
+}
+
+function moduleAvailable(name: string): boolean {
+  try {
+    require.resolve(name)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Expand the file and directory arguments to the documents to extract. Files named on the command
+ * line are always included; files in directories are filtered by `include` and `exclude`.
+ */
+async function findFiles(
+  inputs: string[],
+  docsuite: DocSuite,
+  include: string[],
+  exclude: string[]
+): Promise<InputFile[]> {
+  const extensions = new Set(docsuite.listExtractors().filter((key) => key.startsWith('.')))
+  const included = include.map(globMatcher)
+  const excluded = exclude.map(globMatcher)
+  const isIncluded = (relativePath: string) =>
+    included.length > 0
+      ? included.some((match) => match(relativePath))
+      : extensions.has(path.extname(relativePath).toLowerCase())
+  const isExcluded = (relativePath: string) => excluded.some((match) => match(relativePath))
+
+  const files: InputFile[] = []
+  const walk = async (root: string, dir: string) => {
+    const entries = (await fs.readdir(dir, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name))
+    for (const entry of entries) {
+      const filePath = path.join(dir, entry.name)
+      const relativePath = path.relative(root, filePath).split(path.sep).join('/')
+      if (isExcluded(relativePath)) {
+        continue
+      }
+      if (entry.isDirectory()) {
+        await walk(root, filePath)
+      } else if (entry.isFile() && isIncluded(relativePath)) {
+        files.push({ filePath, relativePath })
+      }
+    }
+  }
+
+  for (const input of inputs) {
+    const stat = await fs.stat(input).catch(() => {
+      throw new UsageError(`no such file or directory: ${input}`)
+    })
+    if (stat.isDirectory()) {
+      await walk(input, input)
+    } else {
+      files.push({ filePath: input, relativePath: path.basename(input) })
+    }
+  }
+  return files
+}
+
+/**
+ * Write the results of each document to stdout as soon as it is done. JSON output is a single
+ * object keyed by document path; JSONL lines carry the document path in `file`.
+ */
+function stdoutWriter(format: OutputFormat): {
+  write: (file: InputFile, results: ExtractionResult[]) => void
+  end: () => void
+} {
+  let count = 0
+  return {
+    write: (file, results) => {
+      if (format === 'json') {
+        process.stdout.write(
+          `${count === 0 ? '{\n' : ',\n'}${JSON.stringify(file.filePath)}: ${JSON.stringify(results)}`
+        )
+      } else if (format === 'jsonl') {
+        process.stdout.write(
+          results.map((result) => JSON.stringify({ file: file.filePath, ...result }) + '\n').join('')
+        )
+      } else {
+        process.stdout.write(`${count === 0 ? '' : '\n'}${render(format, file, results, process.cwd())}`)
+      }
+      count++
+    },
+    end: () => {
+      if (format === 'json') {
+        process.stdout.write(count === 0 ? '{}\n' : '\n}\n')
+      }
+    }
+  }
+}
+
+/**
+ * Contents of the output file of one document
+ * @param baseDir - Directory that image links in Markdown output are relative to
+ */
+function render(format: OutputFormat, file: InputFile, results: ExtractionResult[], baseDir: string): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(results, null, 2) + '\n'
+    case 'jsonl':
+      return results.map((result) => JSON.stringify(result) + '\n').join('')
+    case 'markdown':
+      return renderMarkdown(file.relativePath, results, baseDir)
+  }
+}
+
+/**
+ * Render results as a Markdown document, with a section per page, sheet or slide when there is more than one.
+ * Archives and emails get a section per entry, with the pages one level below.
+ */
+function renderMarkdown(title: string, results: ExtractionResult[], baseDir: string): string {
+  const sections = results.some((result) => result.sheetName) || new Set(results.map((result) => result.page)).size > 1
+  const heading = results.some((result) => result.path) ? '###' : '##'
+  const blocks = [`# ${title}`]
+  let entry: string | undefined
+  let page: number | undefined
+
+  for (const result of results) {
+    if (result.path && result.path !== entry) {
+      entry = result.path
+      page = undefined
+      blocks.push(`## ${entry}`)
+    }
+    if (sections && result.type !== 'metadata' && result.page !== page) {
+      page = result.page
+      blocks.push(`${heading} ${result.sheetName ?? `Page ${page}`}`)
+    }
+    switch (result.type) {
+      case 'text':
+        if (result.title) {
+          blocks.push(`${heading}# ${result.title.replace(/\s*\n\s*/g, ' ')}`)
+        }
+        if (result.contents) {
+          blocks.push(result.isNotes ? `**Notes**\n\n${quote(result.contents)}` : result.contents)
+        }
+        break
+      case 'csv':
+        blocks.push('```csv\n' + result.contents + '\n```')
+        break
+      case 'json':
+        blocks.push('```json\n' + result.contents + '\n```')
+        break
+      case 'metadata':
+        blocks.push('```json\n' + JSON.stringify(result.metadata, null, 2) + '\n```')
+        break
+      case 'image':
+        if (result.filePath) {
+          const link = path.relative(baseDir, result.filePath).split(path.sep).join('/')
+          blocks.push(`![${result.isFullPage ? 'Page image' : 'Image'}](${encodeURI(link)})`)
+        }
+        break
+      case null:
+        blocks.push(quote(`**Error**${result.code ? ` (${result.code})` : ''}: ${result.error}`))
+        break
+    }
+  }
+  return blocks.join('\n\n') + '\n'
+}
+
+function quote(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => `> ${line}`)
+    .join('\n')
+}
+
+function pdfOptions(values: {
+  'pdf-image-format'?: string
+  'no-pdf-images'?: boolean
+  'pdf-full-page-image'?: boolean
+  'pdf-concurrency'?: string
+  'pdf-layout'?: boolean
+  'strip-headers'?: boolean
+  'pdf-tables'?: boolean
+  'pdf-ocr'?: boolean
+  'ocr-language'?: string
+}): PdfExtractionOptions {
+  return {
+    imageFormat: oneOf('--pdf-image-format', values['pdf-image-format'], ['native', 'jpeg', 'png'] as const),
+    images: !values['no-pdf-images'],
+    fullPageImage: values['pdf-full-page-image'] ?? false,
+    concurrency: integer('--pdf-concurrency', values['pdf-concurrency']) ?? 1,
+    ...(values['pdf-layout'] || values['strip-headers']
+      ? { layout: { stripHeadersFooters: values['strip-headers'] ?? false } }
+      : {}),
+    ...(values['pdf-tables'] ? { tables: true } : {}),
+    ...(values['pdf-ocr'] ? { ocr: { language: values['ocr-language'] ?? 'eng' } } : {})
+  }
+}
+
+/**
+ * DocSuite logs go to stderr so they never mix with results on stdout; info and warnings only with --verbose
+ */
+function cliLogger(verbose: boolean): DocSuiteLogger {
+  const log = (...args: any[]) => console.error(...args)
+  return { info: verbose ? log : () => {}, warn: verbose ? log : () => {}, error: log }
+}
+
+function integer(flag: string, value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined
+  }
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new UsageError(`${flag} must be a positive integer, got "${value}"`)
+  }
+  return parsed
+}
+
+function pageRanges(value: string | undefined): string | undefined {
+  try {
+    // Only checks the syntax; the page count is not known yet
+    parsePageRanges(value ?? '1', 0)
+  } catch (e) {
+    throw e instanceof DocSuiteError ? new UsageError(`--pages: ${e.message}`) : e
+  }
+  return value
+}
+
+function oneOf<T extends string>(flag: string, value: string | undefined, allowed: readonly T[]): T | undefined {
+  if (value === undefined) {
+    return undefined
+  }
+  if (!allowed.includes(value as T)) {
+    throw new UsageError(`${flag} must be one of ${allowed.join(', ')}, got "${value}"`)
+  }
+  return value as T
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(
+    (code) => {
+      process.exitCode = code
+    },
+    (e) => {
+      const usage = e instanceof UsageError || (e as { code?: string })?.code?.startsWith('ERR_PARSE_ARGS')
+      console.error(`docsuite: ${e instanceof Error ? e.message : String(e)}`)
+      if (usage) {
+        console.error('Run "docsuite --help" for usage.')
+      }
+      process.exitCode = usage ? 2 : 1
+    }
+  )
+}
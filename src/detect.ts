@@ -0,0 +1,128 @@
+import type { CFB$Container } from 'cfb'
+import fs from 'fs/promises'
+import * as XLSX from 'xlsx'
+import { readZipEntries, readZipEntry } from './zip'
+
+const PDF_SIGNATURE = Buffer.from('%PDF-')
+const OLE2_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04])
+
+/**
+ * Bytes before the PDF header that are tolerated, e.g. a byte order mark or a line break. Further in,
+ * `%PDF-` is more likely part of an embedded file, such as a PDF stored uncompressed in a zip.
+ */
+const PDF_HEADER_OFFSET = 16
+
+/**
+ * Main part content types that identify an OOXML package, keyed by the extension they map to
+ */
+const OOXML_CONTENT_TYPES: Record<string, string[]> = {
+  '.docx': ['wordprocessingml.document.main', 'ms-word.document.macroEnabled.main'],
+  '.xlsx': ['spreadsheetml.sheet.main', 'ms-excel.sheet.macroEnabled.main', 'ms-excel.sheet.binary.macroEnabled.main'],
+  '.pptx': ['presentationml.presentation.main', 'ms-powerpoint.presentation.macroEnabled.main']
+}
+
+/**
+ * Stream names that identify the application behind an OLE2 compound file
+ */
+const OLE2_STREAMS: [string, string][] = [
+  ['Workbook', '.xls'],
+  ['Book', '.xls'],
+  ['WordDocument', '.doc'],
+  ['PowerPoint Document', '.ppt'],
+  ['__properties_version1.0', '.msg']
+]
+
+/**
+ * Detect a document's format from its contents rather than its name.
+ *
+ * OLE2 compound files are identified by their top-level streams, OOXML zip packages by the main
+ * part declared in `[Content_Types].xml`, and PDFs by their header near the start of the file.
+ *
+ * @param filePath - Path of the file to inspect
+ * @returns The dotted extension matching the contents (e.g. `.xlsx`), or null if unknown
+ */
+export async function detectFormat(filePath: string): Promise<string | null> {
+  let header: Buffer
+  try {
+    header = await readHeader(filePath, PDF_HEADER_OFFSET + PDF_SIGNATURE.length)
+  } catch {
+    return null
+  }
+  return detectContents(header, () => fs.readFile(filePath))
+}
+
+/**
+ * Same as `detectFormat`, for a document already in memory
+ */
+export async function detectBufferFormat(data: Buffer): Promise<string | null> {
+  return detectContents(data, async () => data)
+}
+
+/**
+ * @param header - At least the first bytes of the document, up to the end of the PDF header range
+ * @param readAll - Reads the whole document, only needed for containers
+ */
+async function detectContents(header: Buffer, readAll: () => Promise<Buffer>): Promise<string | null> {
+  // Container signatures come first, as their entries may contain a PDF header
+  try {
+    if (startsWith(header, OLE2_SIGNATURE)) {
+      return detectOle2(XLSX.CFB.read(await readAll(), { type: 'buffer' }))
+    }
+    if (startsWith(header, ZIP_SIGNATURE)) {
+      return await detectOoxml(await readAll())
+    }
+  } catch {
+    // Unreadable containers are left to the extension
+    return null
+  }
+
+  // Readers tolerate a little leading garbage before the PDF header
+  if (header.subarray(0, PDF_HEADER_OFFSET + PDF_SIGNATURE.length).includes(PDF_SIGNATURE)) {
+    return '.pdf'
+  }
+  return null
+}
+
+function detectOle2(container: CFB$Container): string | null {
+  const names = new Set(container.FileIndex.map((entry) => entry.name))
+  for (const [stream, ext] of OLE2_STREAMS) {
+    if (names.has(stream)) {
+      return ext
+    }
+  }
+  return null
+}
+
+/**
+ * Only `[Content_Types].xml` is decompressed, so arbitrary zip archives are cheap to inspect
+ */
+async function detectOoxml(archive: Buffer): Promise<string | null> {
+  const entry = readZipEntries(archive).find(({ name }) => name === '[Content_Types].xml')
+  if (!entry) {
+    return null
+  }
+
+  const contentTypes = (await readZipEntry(archive, entry, 1024 * 1024)).toString('utf8')
+  for (const [ext, mainParts] of Object.entries(OOXML_CONTENT_TYPES)) {
+    if (mainParts.some((part) => contentTypes.includes(`${part}+xml`))) {
+      return ext
+    }
+  }
+  return null
+}
+
+async function readHeader(filePath: string, length: number): Promise<Buffer> {
+  const handle = await fs.open(filePath, 'r')
+  try {
+    const buffer = Buffer.alloc(length)
+    const { bytesRead } = await handle.read(buffer, 0, length, 0)
+    return buffer.subarray(0, bytesRead)
+  } finally {
+    await handle.close()
+  }
+}
+
+function startsWith(buffer: Buffer, signature: Buffer): boolean {
+  return buffer.length >= signature.length && buffer.subarray(0, signature.length).equals(signature)
+}
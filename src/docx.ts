@@ -0,0 +1,285 @@
+import mammoth from 'mammoth'
+import { toMarkdownTable } from './format'
+
+/**
+ * Item of a (possibly nested) list in a Word document
+ */
+export type DocxListItem = {
+  text: string
+  ordered: boolean
+  children: DocxListItem[]
+}
+
+/**
+ * Block of a Word document's structure, in document order
+ */
+export type DocxBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; items: DocxListItem[] }
+  | { type: 'table'; index: number; rows: string[][] } // index matches the table's csv result
+  | { type: 'image'; index: number; altText?: string } // index matches the image's image result
+
+export type DocxImage = {
+  index: number
+  contentType: string
+  altText?: string
+  data: Buffer
+}
+
+export type DocxStructure = {
+  blocks: DocxBlock[]
+  tables: { index: number; rows: string[][] }[]
+  images: DocxImage[]
+}
+
+/**
+ * Elements of mammoth's document model that the parser reads. Other element types (bookmarks,
+ * note references, ...) occur at runtime and are ignored.
+ */
+type MammothElement =
+  | { type: 'document' | 'run' | 'hyperlink' | 'table' | 'tableRow'; children: MammothElement[] }
+  | MammothParagraph
+  | MammothTableCell
+  | MammothImage
+  | { type: 'text'; value: string }
+  | { type: 'tab' | 'break' }
+  | { type: 'checkbox'; checked: boolean }
+
+type MammothParagraph = {
+  type: 'paragraph'
+  children: MammothElement[]
+  styleId?: string | null
+  styleName?: string | null
+  numbering?: { level: string; isOrdered: boolean } | null
+}
+
+type MammothTableCell = { type: 'tableCell'; children: MammothElement[]; colSpan?: number; rowSpan?: number }
+
+type MammothImage = {
+  type: 'image'
+  contentType?: string
+  altText?: string
+  readAsBuffer: () => Promise<Buffer>
+}
+
+type ListParagraph = { level: number; ordered: boolean; text: string }
+
+/**
+ * Read a Word document into headings, paragraphs, nested lists, tables and images
+ * using mammoth's document model.
+ * @param filePath - Path of the .docx file
+ */
+export async function readDocxStructure(filePath: string): Promise<DocxStructure> {
+  let document: MammothElement | undefined
+  await mammoth.convertToHtml(
+    { path: filePath },
+    {
+      // Capture the parsed document; images are read separately, so skip encoding them into the HTML
+      convertImage: mammoth.images.imgElement(async () => ({ src: '' })),
+      transformDocument: (element: MammothElement) => {
+        document = element
+        return element
+      }
+    }
+  )
+
+  const structure: DocxStructure = { blocks: [], tables: [], images: [] }
+  if (!document) {
+    return structure
+  }
+
+  const pendingImages: { index: number; element: MammothImage }[] = []
+  let pendingList: ListParagraph[] = []
+
+  const flushList = () => {
+    if (pendingList.length > 0) {
+      structure.blocks.push({ type: 'list', items: nestListItems(pendingList) })
+      pendingList = []
+    }
+  }
+
+  for (const element of children(document)) {
+    if (element.type === 'table') {
+      flushList()
+      const index = structure.tables.length + 1
+      const rows = tableRows(element)
+      structure.tables.push({ index, rows })
+      structure.blocks.push({ type: 'table', index, rows })
+      continue
+    }
+
+    if (element.type !== 'paragraph') {
+      continue
+    }
+
+    const images: MammothImage[] = []
+    const text = inlineText(element.children, images).trim()
+
+    if (element.numbering && text) {
+      pendingList.push({
+        level: parseInt(element.numbering.level, 10) || 0,
+        ordered: !!element.numbering.isOrdered,
+        text
+      })
+    } else {
+      flushList()
+      const level = headingLevel(element)
+      if (level && text) {
+        structure.blocks.push({ type: 'heading', level, text })
+      } else if (text) {
+        structure.blocks.push({ type: 'paragraph', text })
+      }
+    }
+
+    for (const image of images) {
+      flushList()
+      const index = pendingImages.length + 1
+      pendingImages.push({ index, element: image })
+      structure.blocks.push({ type: 'image', index, altText: image.altText || undefined })
+    }
+  }
+  flushList()
+
+  for (const { index, element } of pendingImages) {
+    structure.images.push({
+      index,
+      contentType: element.contentType ?? 'application/octet-stream',
+      altText: element.altText || undefined,
+      data: await element.readAsBuffer()
+    })
+  }
+
+  return structure
+}
+
+/**
+ * Render document blocks as Markdown. Images are referenced as `image-<index>`.
+ */
+export function renderDocxMarkdown(blocks: DocxBlock[]): string {
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case 'heading':
+          return `${'#'.repeat(Math.min(block.level, 6))} ${block.text}`
+        case 'paragraph':
+          return block.text
+        case 'list':
+          return renderListItems(block.items, 0).join('\n')
+        case 'table':
+          return toMarkdownTable(block.rows)
+        case 'image':
+          return `![${block.altText ?? ''}](image-${block.index})`
+      }
+    })
+    .filter((markdown) => markdown.length > 0)
+    .join('\n\n')
+}
+
+function renderListItems(items: DocxListItem[], depth: number): string[] {
+  return items.flatMap((item, i) => [
+    `${'  '.repeat(depth)}${item.ordered ? `${i + 1}.` : '-'} ${item.text}`,
+    ...renderListItems(item.children, depth + 1)
+  ])
+}
+
+function headingLevel(paragraph: MammothParagraph): number | null {
+  const style = String(paragraph.styleName ?? paragraph.styleId ?? '')
+  const match = style.match(/^heading\s*(\d)$/i)
+  if (match) {
+    return parseInt(match[1], 10)
+  }
+  return /^title$/i.test(style) ? 1 : null
+}
+
+function inlineText(elements: MammothElement[] = [], images: MammothImage[]): string {
+  return elements
+    .map((child) => {
+      switch (child.type) {
+        case 'text':
+          return child.value
+        case 'tab':
+          return '\t'
+        case 'break':
+          return '\n'
+        case 'checkbox':
+          return child.checked ? '[x] ' : '[ ] '
+        case 'image':
+          images.push(child)
+          return ''
+        case 'run':
+        case 'hyperlink':
+          return inlineText(child.children, images)
+        default:
+          return ''
+      }
+    })
+    .join('')
+}
+
+/**
+ * Flatten a table into a rectangular grid; cells covered by a column or row span are left empty
+ */
+function tableRows(table: MammothElement): string[][] {
+  const rows: string[][] = []
+  const coveredRows: number[] = []
+
+  for (const rowElement of children(table)) {
+    const row: string[] = []
+    const skipCovered = () => {
+      while (coveredRows[row.length] > 0) {
+        coveredRows[row.length]--
+        row.push('')
+      }
+    }
+
+    for (const cell of children(rowElement)) {
+      if (cell.type !== 'tableCell') {
+        continue
+      }
+      skipCovered()
+      const text = cell.children
+        .map((child) =>
+          child.type === 'table'
+            ? tableRows(child)
+                .map((r) => r.join(' '))
+                .join('\n')
+            : inlineText(children(child), [])
+        )
+        .join('\n')
+        .trim()
+
+      const rowSpan = cell.rowSpan ?? 1
+      for (let span = 0; span < (cell.colSpan ?? 1); span++) {
+        if (rowSpan > 1) {
+          coveredRows[row.length] = rowSpan - 1
+        }
+        row.push(span === 0 ? text : '')
+      }
+    }
+    skipCovered()
+    rows.push(row)
+  }
+
+  return rows
+}
+
+function children(element: MammothElement): MammothElement[] {
+  return 'children' in element ? element.children : []
+}
+
+function nestListItems(paragraphs: ListParagraph[]): DocxListItem[] {
+  const root: DocxListItem[] = []
+  const stack: { level: number; items: DocxListItem[] }[] = [{ level: -1, items: root }]
+
+  for (const paragraph of paragraphs) {
+    while (stack.length > 1 && stack[stack.length - 1].level >= paragraph.level) {
+      stack.pop()
+    }
+    const item: DocxListItem = { text: paragraph.text, ordered: paragraph.ordered, children: [] }
+    stack[stack.length - 1].items.push(item)
+    stack.push({ level: paragraph.level, items: item.children })
+  }
+
+  return root
+}
@@ -0,0 +1,354 @@
+import { readPackage } from './ooxml'
+
+/**
+ * Parsed email message, from an `.eml` (MIME) or Outlook `.msg` file
+ */
+export type Email = {
+  from?: string
+  to?: string
+  cc?: string
+  date?: Date
+  subject?: string
+  body: string // Plain text body; HTML-only messages are converted to text
+  attachments: EmailAttachment[]
+}
+
+/**
+ * File attached to an email. Messages attached to `.msg` files have no bytes of their own and are
+ * parsed in place.
+ */
+export type EmailAttachment = { fileName: string; data: Buffer } | { fileName: string; message: Email }
+
+/**
+ * Header block and body of an email as one text
+ */
+export function emailText(email: Email): string {
+  const headers = [
+    ['From', email.from],
+    ['To', email.to],
+    ['Cc', email.cc],
+    ['Date', email.date?.toISOString()],
+    ['Subject', email.subject]
+  ].filter(([, value]) => value)
+  const header = headers.map(([name, value]) => `${name}: ${value}`).join('\n')
+  return [header, email.body.trim()].filter(Boolean).join('\n\n')
+}
+
+// ---------------------------------------------------------------------------------------------------------------------
+// MIME (.eml)
+// ---------------------------------------------------------------------------------------------------------------------
+
+type MimePart = {
+  headers: Map<string, string>
+  body: string // Raw body, one character per byte
+}
+
+/**
+ * Parse a MIME message (RFC 5322 / RFC 2045). Nested `message/rfc822` parts become `.eml` attachments.
+ */
+export function parseEml(data: Buffer): Email {
+  // Latin-1 keeps one character per byte, so decoded bodies can be turned back into bytes
+  const message = parsePart(data.toString('latin1'))
+  const email: Email = {
+    from: header(message, 'from'),
+    to: header(message, 'to'),
+    cc: header(message, 'cc'),
+    subject: header(message, 'subject'),
+    body: '',
+    attachments: []
+  }
+  const date = header(message, 'date')
+  if (date && !isNaN(Date.parse(date))) {
+    email.date = new Date(date)
+  }
+
+  let plain: string | undefined
+  let html: string | undefined
+  const visit = (part: MimePart): void => {
+    const contentType = parseHeaderValue(part.headers.get('content-type') ?? 'text/plain')
+    const type = contentType.value.toLowerCase()
+    const disposition = parseHeaderValue(part.headers.get('content-disposition') ?? '')
+    const fileName = disposition.params.filename ?? contentType.params.name
+
+    if (type.startsWith('multipart/') && contentType.params.boundary) {
+      splitMultipart(part.body, contentType.params.boundary).forEach((child) => visit(parsePart(child)))
+      return
+    }
+
+    const bytes = decodeBody(part)
+    if (type === 'message/rfc822') {
+      const subject = parseEml(bytes).subject
+      email.attachments.push({ fileName: fileName ?? `${subject || 'message'}.eml`, data: bytes })
+    } else if (disposition.value.toLowerCase() === 'attachment' || (fileName && !type.startsWith('text/'))) {
+      email.attachments.push({ fileName: fileName ?? 'attachment', data: bytes })
+    } else if (type === 'text/plain' && plain === undefined) {
+      plain = decodeText(bytes, contentType.params.charset)
+    } else if (type === 'text/html' && html === undefined) {
+      html = decodeText(bytes, contentType.params.charset)
+    }
+  }
+  visit(message)
+
+  email.body = plain ?? (html !== undefined ? htmlToText(html) : '')
+  return email
+}
+
+function parsePart(raw: string): MimePart {
+  const separator = raw.match(/\r?\n\r?\n/)
+  const headerBlock = separator ? raw.slice(0, separator.index) : raw
+  const body = separator ? raw.slice(separator.index! + separator[0].length) : ''
+
+  const headers = new Map<string, string>()
+  // Continuation lines start with whitespace and belong to the previous header
+  for (const line of headerBlock.replace(/\r?\n(?=[ \t])/g, '').split(/\r?\n/)) {
+    const colon = line.indexOf(':')
+    if (colon > 0) {
+      const name = line.slice(0, colon).trim().toLowerCase()
+      if (!headers.has(name)) {
+        headers.set(name, line.slice(colon + 1).trim())
+      }
+    }
+  }
+  return { headers, body }
+}
+
+function header(part: MimePart, name: string): string | undefined {
+  const value = part.headers.get(name)
+  return value ? decodeWords(value) : undefined
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = new RegExp(
+    `(?:^|\\r?\\n)--${boundary.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(--)?[ \\t]*(?=\\r?\\n|$)`
+  )
+  const parts: string[] = []
+  let rest = body
+  let match = rest.match(delimiter)
+  // Text before the first delimiter is a preamble
+  while (match) {
+    rest = rest.slice(match.index! + match[0].length).replace(/^\r?\n/, '')
+    if (match[1]) {
+      break
+    }
+    const next = rest.match(delimiter)
+    parts.push(next ? rest.slice(0, next.index) : rest)
+    match = next
+  }
+  return parts
+}
+
+/**
+ * Header value and its parameters, e.g. `attachment; filename="a.pdf"`. RFC 2231 extended and
+ * continued parameters (`filename*0*=utf-8''...`) are joined and decoded.
+ */
+function parseHeaderValue(value: string): { value: string; params: Record<string, string> } {
+  const [main, ...rest] = value.match(/(?:[^;"]|"(?:\\.|[^"\\])*")+/g) ?? ['']
+  const sections = new Map<string, { index: number; value: string; extended: boolean }[]>()
+  for (const param of rest) {
+    const match = param.trim().match(/^([^=*\s]+)(?:\*(\d+))?(\*)?\s*=\s*(.*)$/s)
+    if (!match) {
+      continue
+    }
+    const [, name, index, extended, raw] = match
+    const unquoted = raw.startsWith('"') ? raw.slice(1, -1).replace(/\\(.)/g, '$1') : raw.trim()
+    const key = name.toLowerCase()
+    sections.set(key, [
+      ...(sections.get(key) ?? []),
+      { index: Number(index ?? 0), value: unquoted, extended: !!extended }
+    ])
+  }
+
+  const params: Record<string, string> = {}
+  for (const [name, parts] of sections) {
+    parts.sort((a, b) => a.index - b.index)
+    const first = parts[0]
+    if (first.extended) {
+      // charset'language'percent-encoded-value
+      const [charset, , firstValue] = first.value.split("'")
+      const encoded = [firstValue ?? '', ...parts.slice(1).map((part) => part.value)].join('')
+      const bytes = Buffer.from(
+        encoded.replace(/%([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))),
+        'latin1'
+      )
+      params[name] = decodeText(bytes, charset)
+    } else {
+      params[name] = decodeWords(parts.map((part) => part.value).join(''))
+    }
+  }
+  return { value: main.trim(), params }
+}
+
+/**
+ * Decode RFC 2047 encoded words (`=?utf-8?B?...?=`) and raw UTF-8 in a header value
+ */
+function decodeWords(value: string): string {
+  // Headers are read as Latin-1; modern mailers send raw UTF-8 instead of encoded words
+  let text = value
+  if (/[\x80-\xff]/.test(text)) {
+    try {
+      text = new TextDecoder('utf-8', { fatal: true }).decode(Buffer.from(text, 'latin1'))
+    } catch {
+      // Not UTF-8: keep Latin-1
+    }
+  }
+
+  // Whitespace between two encoded words is not part of the text
+  const joined = text.replace(/(=\?[^?]+\?[bBqQ]\?[^?]*\?=)\s+(?==\?[^?]+\?[bBqQ]\?[^?]*\?=)/g, '$1')
+  return joined.replace(
+    /=\?([^?]+)\?([bBqQ])\?([^?]*)\?=/g,
+    (_, charset: string, encoding: string, encoded: string) => {
+      const bytes =
+        encoding.toUpperCase() === 'B'
+          ? Buffer.from(encoded, 'base64')
+          : Buffer.from(decodeQuotedPrintable(encoded.replace(/_/g, ' ')), 'latin1')
+      // The charset may carry an RFC 2231 language suffix, e.g. "utf-8*en"
+      return decodeText(bytes, charset.split('*')[0])
+    }
+  )
+}
+
+function decodeBody(part: MimePart): Buffer {
+  switch ((part.headers.get('content-transfer-encoding') ?? '').trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(part.body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64')
+    case 'quoted-printable':
+      return Buffer.from(decodeQuotedPrintable(part.body), 'latin1')
+    default:
+      return Buffer.from(part.body, 'latin1')
+  }
+}
+
+function decodeQuotedPrintable(text: string): string {
+  return text
+    .replace(/=\r?\n/g, '')
+    .replace(/=([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+}
+
+function decodeText(bytes: Buffer, charset = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset.trim()).decode(bytes)
+  } catch {
+    // Unknown charset label
+    return new TextDecoder('utf-8').decode(bytes)
+  }
+}
+
+const HTML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' }
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|head)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#\d+|#x[0-9a-fA-F]+|\w+);/g, (entity, name: string) => {
+      if (name.startsWith('#')) {
+        const codePoint = name[1] === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10)
+        // Out-of-range code points and lone surrogates are not characters
+        return codePoint <= 0x10ffff && (codePoint < 0xd800 || codePoint > 0xdfff)
+          ? String.fromCodePoint(codePoint)
+          : '\ufffd'
+      }
+      return HTML_ENTITIES[name.toLowerCase()] ?? entity
+    })
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+// ---------------------------------------------------------------------------------------------------------------------
+// Outlook (.msg)
+// ---------------------------------------------------------------------------------------------------------------------
+
+const ATTACH_METHOD_EMBEDDED_MESSAGE = 5
+
+/**
+ * Parse an Outlook message ([MS-OXMSG]): an OLE2 compound file with one stream per property
+ */
+export function parseMsg(data: Buffer): Email {
+  return readMsg(readPackage(data), '', 32)
+}
+
+/**
+ * @param prefix - Storage of the message inside the file, with a trailing slash for embedded messages
+ * @param headerSize - Header length of the message's property stream: 32 at the top level, 24 when embedded
+ */
+function readMsg(streams: Map<string, Buffer>, prefix: string, headerSize: number): Email {
+  const string = (id: string, storage = prefix): string | undefined => {
+    const unicode = streams.get(`${storage}__substg1.0_${id}001F`)
+    const value = unicode
+      ? unicode.toString('utf16le')
+      : streams.get(`${storage}__substg1.0_${id}001E`)?.toString('latin1')
+    return value?.replace(/\0+$/, '') || undefined
+  }
+  const properties = readFixedProperties(streams.get(`${prefix}__properties_version1.0`), headerSize)
+
+  const senderName = string('0C1A')
+  // PR_SENDER_EMAIL_ADDRESS holds an Exchange DN rather than an address for internal senders
+  const senderAddress = string('5D01') ?? [string('0C1F')].find((address) => address?.includes('@'))
+  const from = senderName && senderAddress ? `${senderName} <${senderAddress}>` : (senderName ?? senderAddress)
+  // PR_CLIENT_SUBMIT_TIME, or PR_MESSAGE_DELIVERY_TIME for received messages
+  const time = properties.get(0x0039) ?? properties.get(0x0e06)
+
+  const html = streams.get(`${prefix}__substg1.0_10130102`) ?? string('1013')
+  const body =
+    string('1000') ?? (html !== undefined ? htmlToText(typeof html === 'string' ? html : decodeText(html)) : '')
+
+  const attachments: EmailAttachment[] = []
+  const storages = new Set<string>()
+  for (const key of streams.keys()) {
+    const match = key.slice(prefix.length).match(/^(__attach_version1\.0_#[0-9A-Fa-f]{8})\//)
+    if (key.startsWith(prefix) && match) {
+      storages.add(`${prefix}${match[1]}/`)
+    }
+  }
+  for (const storage of [...storages].sort()) {
+    const fileName = string('3707', storage) ?? string('3704', storage) ?? string('3001', storage) ?? 'attachment'
+    const method = readFixedProperties(streams.get(`${storage}__properties_version1.0`), 8).get(0x3705)
+    const embedded = `${storage}__substg1.0_3701000D/`
+    if (
+      method === BigInt(ATTACH_METHOD_EMBEDDED_MESSAGE) ||
+      [...streams.keys()].some((key) => key.startsWith(embedded))
+    ) {
+      const message = readMsg(streams, embedded, 24)
+      attachments.push({ fileName: `${string('3001', storage) ?? message.subject ?? 'message'}.msg`, message })
+      continue
+    }
+    const data = streams.get(`${storage}__substg1.0_37010102`)
+    if (data) {
+      attachments.push({ fileName, data })
+    }
+  }
+
+  return {
+    from,
+    to: string('0E04'),
+    cc: string('0E03'),
+    date: time === undefined ? undefined : filetimeToDate(time),
+    subject: string('0037'),
+    body,
+    attachments
+  }
+}
+
+/**
+ * Values of the fixed-length properties in a `__properties_version1.0` stream, keyed by property ID
+ */
+function readFixedProperties(stream: Buffer | undefined, headerSize: number): Map<number, bigint> {
+  const properties = new Map<number, bigint>()
+  if (!stream) {
+    return properties
+  }
+  // Each entry is 16 bytes: property tag (type in the low word, ID in the high word), flags and an 8-byte value
+  for (let offset = headerSize; offset + 16 <= stream.length; offset += 16) {
+    properties.set(stream.readUInt16LE(offset + 2), stream.readBigUInt64LE(offset + 8))
+  }
+  return properties
+}
+
+/**
+ * FILETIME (100 ns intervals since 1601-01-01) to a Date
+ */
+function filetimeToDate(filetime: bigint): Date {
+  return new Date(Number((filetime - 116444736000000000n) / 10000n))
+}
@@ -0,0 +1,44 @@
+/**
+ * Machine-readable reason for an error result (`ExtractionResult.code`) or a thrown `DocSuiteError`
+ */
+export type ErrorCode =
+  | 'UNSUPPORTED_FORMAT' // No extractor or metadata reader for the format, or an unsupported encryption scheme
+  | 'DEPENDENCY_MISSING' // Poppler, LibreOffice or tesseract.js is not installed
+  | 'CORRUPT_FILE' // The document, a page or a sheet could not be parsed
+  | 'ENCRYPTED' // The document needs a password
+  | 'INVALID_PASSWORD' // The password for the encrypted document is incorrect
+  | 'TIMEOUT' // The extraction ran longer than the `timeout` option
+  | 'INPUT_TOO_LARGE' // The input exceeds the `maxBytes` option
+  | 'INVALID_INPUT' // Invalid options, such as a malformed `pages` selection, or in-memory input without a `fileName` or `extension`
+  | 'RENDER_FAILED' // A full-page or full-slide image could not be rendered
+  | 'OCR_FAILED' // Text recognition failed for a page
+  | 'EXTRACTOR_FAILED' // A custom extractor threw an error without a code
+  | 'LIMIT_EXCEEDED' // An archive or email exceeds the `containers` depth, size or entry limits
+  | 'POSTPROCESSOR_FAILED' // A post-processor stage threw; the other results are still returned
+
+/**
+ * Machine-readable reason for a non-fatal issue (`ExtractionWarning.code`)
+ */
+export type WarningCode =
+  | 'FORMAT_MISMATCH' // The extension does not match the detected format; the detected format was used
+  | 'POSTPROCESSOR_FAILED' // A post-processor stage threw; the chain continued with that stage's input
+  | 'ENTRY_SKIPPED' // Archive entries or email attachments have no extractor and were not extracted
+
+/**
+ * Error thrown by DocSuite with a machine-readable code: by `getMetadata`, and by `extract` and
+ * `extractStream` in place of an error result with the `throwOnError` option.
+ * Custom extractors can throw it to report a code on their error result.
+ */
+export class DocSuiteError extends Error {
+  readonly code: ErrorCode
+  readonly fileName?: string
+  readonly page?: number
+
+  constructor(code: ErrorCode, message: string, details: { fileName?: string; page?: number; cause?: unknown } = {}) {
+    super(message, details.cause !== undefined ? { cause: details.cause } : undefined)
+    this.name = 'DocSuiteError'
+    this.code = code
+    this.fileName = details.fileName
+    this.page = details.page
+  }
+}
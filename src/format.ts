@@ -0,0 +1,33 @@
+/**
+ * Render rows as RFC 4180 CSV. Fields containing commas, quotes or line breaks are quoted.
+ */
+export function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(csvField).join(',')).join('\n')
+}
+
+/**
+ * Render rows as a GitHub-flavored Markdown table, using the first row as the header
+ */
+export function toMarkdownTable(rows: string[][]): string {
+  if (rows.length === 0) {
+    return ''
+  }
+
+  const width = Math.max(...rows.map((row) => row.length))
+  const cells = rows.map((row) => Array.from({ length: width }, (_, i) => markdownCell(row[i] ?? '')))
+  const [header, ...body] = cells
+
+  return [
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...body.map((row) => `| ${row.join(' | ')} |`)
+  ].join('\n')
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>')
+}
@@ -0,0 +1,67 @@
+/**
+ * Compile a glob pattern to a matcher for `/`-separated relative paths.
+ * Supports `*` and `?` within a path segment, `**` across segments, `[...]` character classes and
+ * `{a,b}` alternatives. Patterns without a `/` match the file name in any directory.
+ */
+export function globMatcher(pattern: string): (relativePath: string) => boolean {
+  const basenameOnly = !pattern.includes('/')
+  const regex = new RegExp(`^${globToRegExp(pattern.replace(/^\.\//, ''))}$`)
+  return (relativePath) =>
+    regex.test(basenameOnly ? relativePath.slice(relativePath.lastIndexOf('/') + 1) : relativePath)
+}
+
+function globToRegExp(pattern: string): string {
+  let source = ''
+  let braces = 0
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    switch (char) {
+      case '*':
+        if (pattern[i + 1] === '*') {
+          // "**/" matches zero or more directories, a trailing "**" everything below
+          const slash = pattern[i + 2] === '/'
+          source += slash ? '(?:.*/)?' : '.*'
+          i += slash ? 2 : 1
+        } else {
+          source += '[^/]*'
+        }
+        break
+      case '?':
+        source += '[^/]'
+        break
+      case '[': {
+        const end = pattern.indexOf(']', i + 1)
+        if (end === -1) {
+          source += '\\['
+          break
+        }
+        const negate = pattern[i + 1] === '!' || pattern[i + 1] === '^'
+        const body = pattern.slice(negate ? i + 2 : i + 1, end).replace(/\\/g, '\\\\')
+        source += `[${negate ? '^' : ''}${body}]`
+        i = end
+        break
+      }
+      case '{':
+        braces++
+        source += '(?:'
+        break
+      case '}':
+        if (braces > 0) {
+          braces--
+          source += ')'
+        } else {
+          source += '\\}'
+        }
+        break
+      case ',':
+        source += braces > 0 ? '|' : ','
+        break
+      default:
+        source += char.replace(/[.+^$()|\\]/g, '\\$&')
+        break
+    }
+  }
+
+  return source + ')'.repeat(braces)
+}
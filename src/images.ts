@@ -0,0 +1,168 @@
+import { createHash } from 'crypto'
+import sharp from 'sharp'
+
+export type ImageProcessingOptions = {
+  // 'original' (default): keep embedded images in the format they were extracted in; full-page images are JPEG
+  format?: 'original' | 'jpeg' | 'png' | 'webp'
+  quality?: number // JPEG and WebP quality from 1 to 100 (default 90)
+  maxWidth?: number // Downscale wider images, keeping the aspect ratio
+  maxHeight?: number // Downscale taller images, keeping the aspect ratio
+  minWidth?: number // Drop embedded images narrower than this, e.g. bullets and rules
+  minHeight?: number // Drop embedded images shorter than this
+  maxBytes?: number // Drop images that are still larger than this after resizing and encoding
+  // 'exact': drop embedded images with the same bytes as an image already returned for the document
+  // 'perceptual': also drop images that look the same after re-encoding or small edits, e.g. a logo on every page
+  dedupe?: 'exact' | 'perceptual'
+}
+
+/**
+ * Image after resizing and encoding, with its size in pixels when it could be decoded
+ */
+export type ProcessedImage = {
+  data: Buffer
+  mimeType: string
+  width?: number
+  height?: number
+}
+
+const MIME_TYPES: Record<string, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  tiff: 'image/tiff',
+  gif: 'image/gif',
+  jp2k: 'image/jp2'
+}
+
+/**
+ * Largest Hamming distance between two perceptual hashes that still counts as the same image
+ */
+const PERCEPTUAL_THRESHOLD = 4
+
+/**
+ * Apply the size filters, resizing and encoding of `options` to an image.
+ * Images that cannot be decoded are returned unchanged, without a size.
+ * @param mimeType - MIME type of `image` as extracted
+ * @param filter - Apply `minWidth` and `minHeight` (embedded images only)
+ * @returns The processed image, or null if a filter dropped it
+ */
+export async function processImage(
+  image: Buffer,
+  mimeType: string,
+  options: ImageProcessingOptions,
+  filter = true
+): Promise<ProcessedImage | null> {
+  const { format = 'original', quality = 90, maxWidth, maxHeight, minWidth = 0, minHeight = 0, maxBytes } = options
+
+  let width: number | undefined
+  let height: number | undefined
+  let sourceFormat: string | undefined
+  try {
+    const metadata = await sharp(image).metadata()
+    width = metadata.autoOrient?.width ?? metadata.width
+    height = metadata.autoOrient?.height ?? metadata.height
+    sourceFormat = metadata.format
+  } catch {
+    // Formats sharp cannot decode (e.g. some JPEG 2000 or CCITT images) are passed through
+  }
+
+  if (width === undefined || height === undefined) {
+    return maxBytes !== undefined && image.length > maxBytes ? null : { data: image, mimeType }
+  }
+  if (filter && (width < minWidth || height < minHeight)) {
+    return null
+  }
+
+  const resize = (maxWidth !== undefined && width > maxWidth) || (maxHeight !== undefined && height > maxHeight)
+  const targetFormat = format === 'original' ? sourceFormat : format
+  let processed: ProcessedImage = { data: image, mimeType, width, height }
+
+  if (resize || format !== 'original') {
+    let pipeline = sharp(image).rotate()
+    if (resize) {
+      pipeline = pipeline.resize({ width: maxWidth, height: maxHeight, fit: 'inside', withoutEnlargement: true })
+    }
+    switch (targetFormat) {
+      case 'jpeg':
+        pipeline = pipeline.jpeg({ quality, progressive: false, mozjpeg: true }).toColorspace('srgb')
+        break
+      case 'webp':
+        pipeline = pipeline.webp({ quality })
+        break
+      default:
+        // PNG output, also for original formats sharp cannot write, such as TIFF and JPEG 2000
+        pipeline = pipeline.png()
+        break
+    }
+    const { data, info } = await pipeline.toBuffer({ resolveWithObject: true })
+    processed = {
+      data,
+      mimeType: MIME_TYPES[info.format] ?? `image/${info.format}`,
+      width: info.width,
+      height: info.height
+    }
+  }
+
+  return maxBytes !== undefined && processed.data.length > maxBytes ? null : processed
+}
+
+/**
+ * Create a check that reports whether an image was already seen by earlier calls.
+ * Images that cannot be decoded are compared by their bytes in both modes.
+ */
+export function createImageDeduplicator(
+  mode: NonNullable<ImageProcessingOptions['dedupe']>
+): (image: Buffer) => Promise<boolean> {
+  const digests = new Set<string>()
+  const hashes: bigint[] = []
+
+  return async (image) => {
+    const digest = createHash('sha256').update(image).digest('hex')
+    if (digests.has(digest)) {
+      return true
+    }
+    digests.add(digest)
+    if (mode === 'exact') {
+      return false
+    }
+
+    const hash = await perceptualHash(image)
+    if (hash === null) {
+      return false
+    }
+    if (hashes.some((seen) => hammingDistance(seen, hash) <= PERCEPTUAL_THRESHOLD)) {
+      return true
+    }
+    hashes.push(hash)
+    return false
+  }
+}
+
+/**
+ * 64-bit difference hash: each bit records whether a pixel of a 9x8 grayscale thumbnail is
+ * brighter than its right neighbour
+ */
+async function perceptualHash(image: Buffer): Promise<bigint | null> {
+  let pixels: Buffer
+  try {
+    pixels = await sharp(image).rotate().grayscale().resize(9, 8, { fit: 'fill' }).raw().toBuffer()
+  } catch {
+    return null
+  }
+
+  let hash = 0n
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      hash = (hash << 1n) | (pixels[y * 9 + x] > pixels[y * 9 + x + 1] ? 1n : 0n)
+    }
+  }
+  return hash
+}
+
+function hammingDistance(a: bigint, b: bigint): number {
+  let distance = 0
+  for (let diff = a ^ b; diff > 0n; diff >>= 1n) {
+    distance += Number(diff & 1n)
+  }
+  return distance
+}
@@ -1,6 +1,40 @@
 export {
   DocSuite,
+  type ContainerExtractionOptions,
+  type DocSuiteConfig,
+  type DocSuiteLogger,
+  type DocxExtractionOptions,
+  type ExtractionInput,
+  type ExtractionLimits,
+  type ExtractionOptions,
   type ExtractionResult,
+  type ExtractionWarning,
+  type ExtractorHandler,
+  type NamedPostProcessor,
+  type MetadataOptions,
+  type PdfExtractionOptions,
+  type PdfOcrOptions,
   type PostProcessor,
-  type PostProcessorInput
+  type PostProcessorInfo,
+  type PostProcessorInput,
+  type PostProcessorOverrides,
+  type PptxExtractionOptions,
+  type XlsxExtractionOptions
 } from './DocSuite';
+export { DocSuiteError, type ErrorCode, type WarningCode } from './errors';
+export { FileCache, MemoryCache, type ResultCache } from './cache';
+export { type DocxBlock, type DocxListItem } from './docx';
+export { type XlsxCell } from './xlsx';
+export { type OcrEngine, type OcrResult } from './ocr';
+export { type DocumentMetadata } from './metadata';
+export { type ImageProcessingOptions } from './images';
+export {
+  type BoundingBox,
+  type PdfLayoutOptions,
+  type PdfPageLayout,
+  type PdfTextBlock,
+  type PdfTextLine
+} from './pdflayout';
+export { type PdfTableOptions } from './pdftable';
+export { type ChunkOptions, type DocumentChunk, type TokenCounter } from './chunk';
+export { type ProgressCallback, type ProgressEvent } from './progress';
@@ -0,0 +1,156 @@
+import fs from 'fs/promises'
+import * as XLSX from 'xlsx'
+import { parseEml, parseMsg } from './email'
+import { elementText, matchTags, readPackage } from './ooxml'
+
+/**
+ * Normalized document properties. Fields the document does not declare are omitted.
+ */
+export type DocumentMetadata = {
+  format: string // Extension of the format the properties were read from, e.g. ".pdf"
+  title?: string
+  subject?: string
+  author?: string
+  keywords?: string
+  description?: string
+  lastModifiedBy?: string
+  creator?: string // Application that created the document
+  producer?: string // PDF producer, e.g. the library that wrote the file
+  company?: string
+  created?: string // ISO 8601
+  modified?: string // ISO 8601
+  pageCount?: number // Pages (PDF, DOCX as last saved), slides (PPTX) or sheets (XLSX/XLS)
+  wordCount?: number
+  encrypted?: boolean
+  pageSize?: { width: number; height: number } // First page in points (PDF)
+  pdfVersion?: string
+}
+
+/**
+ * Parse `pdfinfo -isodates` output into normalized metadata
+ */
+export function parsePdfInfo(info: string): DocumentMetadata {
+  const fields = new Map<string, string>()
+  for (const line of info.split(/\r?\n/)) {
+    const match = line.match(/^([^:]+):\s*(.*)$/)
+    if (match && !fields.has(match[1])) {
+      fields.set(match[1], match[2].trim())
+    }
+  }
+
+  const text = (key: string) => fields.get(key) || undefined
+  const pages = parseInt(fields.get('Pages') ?? '', 10)
+  const pageSize = fields.get('Page size')?.match(/^([\d.]+) x ([\d.]+) pts/)
+  const encrypted = fields.get('Encrypted')
+
+  return compact({
+    format: '.pdf',
+    title: text('Title'),
+    subject: text('Subject'),
+    author: text('Author'),
+    keywords: text('Keywords'),
+    creator: text('Creator'),
+    producer: text('Producer'),
+    created: isoDate(text('CreationDate')),
+    modified: isoDate(text('ModDate')),
+    pageCount: Number.isNaN(pages) ? undefined : pages,
+    encrypted: encrypted === undefined ? undefined : encrypted.startsWith('yes'),
+    pageSize: pageSize ? { width: parseFloat(pageSize[1]), height: parseFloat(pageSize[2]) } : undefined,
+    pdfVersion: text('PDF version')
+  })
+}
+
+/**
+ * Read the core and extended properties (`docProps/core.xml`, `docProps/app.xml`) of a
+ * Word, Excel or PowerPoint package
+ * @param format - Extension of the package format, e.g. ".docx"
+ */
+export async function readOfficeMetadata(filePath: string, format: string): Promise<DocumentMetadata> {
+  const entries = readPackage(await fs.readFile(filePath))
+  const core = entries.get('docProps/core.xml')?.toString('utf8') ?? ''
+  const app = entries.get('docProps/app.xml')?.toString('utf8') ?? ''
+  const text = (xml: string, name: string) => elementText(xml, name)?.trim() || undefined
+  const number = (name: string) => {
+    const value = parseInt(text(app, name) ?? '', 10)
+    return Number.isNaN(value) ? undefined : value
+  }
+
+  // Sheets and slides are counted from the package itself; app.xml may be missing or stale
+  const workbook = entries.get('xl/workbook.xml')?.toString('utf8')
+  const presentation = entries.get('ppt/presentation.xml')?.toString('utf8')
+
+  return compact({
+    format,
+    title: text(core, 'dc:title'),
+    subject: text(core, 'dc:subject'),
+    author: text(core, 'dc:creator'),
+    keywords: text(core, 'cp:keywords'),
+    description: text(core, 'dc:description'),
+    lastModifiedBy: text(core, 'cp:lastModifiedBy'),
+    creator: text(app, 'Application'),
+    company: text(app, 'Company'),
+    created: isoDate(text(core, 'dcterms:created')),
+    modified: isoDate(text(core, 'dcterms:modified')),
+    pageCount: workbook
+      ? matchTags(workbook, 'sheet').length
+      : presentation
+        ? matchTags(presentation, 'p:sldId').length
+        : number('Pages'),
+    wordCount: number('Words')
+  })
+}
+
+/**
+ * Read the summary properties of a legacy Excel workbook (.xls)
+ * @param password - Password of an encrypted workbook
+ */
+export function readXlsMetadata(filePath: string, password?: string): DocumentMetadata {
+  const wb = XLSX.readFile(filePath, {
+    bookProps: true,
+    bookSheets: true,
+    ...(password !== undefined ? { password } : {})
+  })
+  const props: XLSX.FullProperties = wb.Props ?? {}
+
+  return compact({
+    format: '.xls',
+    title: props.Title || undefined,
+    subject: props.Subject || undefined,
+    author: props.Author || undefined,
+    keywords: props.Keywords || undefined,
+    description: props.Comments || undefined,
+    lastModifiedBy: props.LastAuthor || undefined,
+    creator: props.Application || undefined,
+    company: props.Company || undefined,
+    created: isoDate(props.CreatedDate),
+    modified: isoDate(props.ModifiedDate),
+    pageCount: wb.SheetNames.length
+  })
+}
+
+/**
+ * Read the headers of an email (.eml or .msg) as document properties
+ */
+export async function readEmailMetadata(filePath: string, format: '.eml' | '.msg'): Promise<DocumentMetadata> {
+  const data = await fs.readFile(filePath)
+  const email = format === '.msg' ? parseMsg(data) : parseEml(data)
+  return compact({
+    format,
+    title: email.subject,
+    author: email.from,
+    created: isoDate(email.date)
+  })
+}
+
+function isoDate(value: string | Date | undefined): string | undefined {
+  if (!value) {
+    return undefined
+  }
+  // pdfinfo leaves out the minutes of whole-hour offsets ("2024-03-01T10:00:00+01"), which Date rejects
+  const date = new Date(typeof value === 'string' ? value.replace(/([+-]\d{2})$/, '$1:00') : value)
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+function compact(metadata: DocumentMetadata): DocumentMetadata {
+  return Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined)) as DocumentMetadata
+}
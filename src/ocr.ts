@@ -0,0 +1,45 @@
+import { DocSuiteError } from './errors'
+
+/**
+ * Text recognized in an image
+ */
+export type OcrResult = {
+  text: string
+  confidence: number // 0 to 1
+}
+
+/**
+ * Function that recognizes the text in a rendered page image (PNG)
+ * @param image - Page image
+ * @param options - Language requested by the caller and the page number being recognized
+ */
+export type OcrEngine = (image: Buffer, options: { language: string; page: number }) => Promise<OcrResult>
+
+/**
+ * The part of the tesseract.js API used here
+ */
+type Tesseract = {
+  recognize: (image: Buffer, language: string) => Promise<{ data: { text?: string; confidence?: number } }>
+}
+
+/**
+ * OCR engine backed by tesseract.js, which must be installed separately
+ */
+export const tesseractEngine: OcrEngine = async (image, { language }) => {
+  let tesseract: Tesseract
+  try {
+    tesseract = require('tesseract.js')
+  } catch {
+    throw new DocSuiteError(
+      'DEPENDENCY_MISSING',
+      'The "tesseract" OCR engine requires the optional "tesseract.js" package to be installed.'
+    )
+  }
+
+  const { data } = await tesseract.recognize(image, language)
+  return { text: data.text ?? '', confidence: (data.confidence ?? 0) / 100 }
+}
+
+export function resolveOcrEngine(engine: 'tesseract' | OcrEngine): OcrEngine {
+  return engine === 'tesseract' ? tesseractEngine : engine
+}
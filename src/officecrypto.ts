@@ -0,0 +1,218 @@
+import { createDecipheriv, createHash } from 'crypto'
+import fs from 'fs/promises'
+import { matchTags, readPackage, xmlAttribute } from './ooxml'
+
+const OLE2_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])
+
+/**
+ * Block keys of the agile key derivation ([MS-OFFCRYPTO] 2.3.4.13)
+ */
+const VERIFIER_INPUT_BLOCK = Buffer.from([0xfe, 0xa7, 0xd2, 0x76, 0x3b, 0x4b, 0x9e, 0x79])
+const VERIFIER_VALUE_BLOCK = Buffer.from([0xd7, 0xaa, 0x0f, 0x6d, 0x30, 0x61, 0x34, 0x4e])
+const KEY_VALUE_BLOCK = Buffer.from([0x14, 0x6e, 0x0b, 0xe7, 0xab, 0xac, 0xd0, 0xd6])
+
+const SEGMENT_LENGTH = 4096
+
+/**
+ * Streams of a password-protected OOXML document. Office stores the encrypted zip package in an
+ * OLE2 compound file together with the parameters needed to decrypt it.
+ */
+export type EncryptedPackage = {
+  info: Buffer // EncryptionInfo stream
+  data: Buffer // EncryptedPackage stream
+}
+
+/**
+ * Read the encryption streams of a password-protected Word, Excel or PowerPoint file
+ * @returns The streams, or null if the file is not an encrypted OOXML package
+ */
+export async function readEncryptedPackage(filePath: string): Promise<EncryptedPackage | null> {
+  // Only OLE2 compound files are read in full
+  const handle = await fs.open(filePath, 'r')
+  const header = Buffer.alloc(OLE2_SIGNATURE.length)
+  try {
+    await handle.read(header, 0, header.length, 0)
+  } finally {
+    await handle.close()
+  }
+  if (!header.equals(OLE2_SIGNATURE)) {
+    return null
+  }
+
+  let entries: Map<string, Buffer>
+  try {
+    entries = readPackage(await fs.readFile(filePath))
+  } catch {
+    return null
+  }
+  const info = entries.get('EncryptionInfo')
+  const data = entries.get('EncryptedPackage')
+  return info && data ? { info, data } : null
+}
+
+/**
+ * Decrypt the zip package of an encrypted OOXML document. Supports agile encryption (Office 2010
+ * and later) and standard encryption (Office 2007).
+ * @returns The decrypted package, or null if the password is incorrect
+ */
+export function decryptPackage(encrypted: EncryptedPackage, password: string): Buffer | null {
+  const major = encrypted.info.readUInt16LE(0)
+  const minor = encrypted.info.readUInt16LE(2)
+  if (major === 4 && minor === 4) {
+    return decryptAgile(encrypted, password)
+  }
+  if ((major === 3 || major === 4) && minor === 2) {
+    return decryptStandard(encrypted, password)
+  }
+  throw new Error(`Unsupported Office encryption version ${major}.${minor}`)
+}
+
+/**
+ * [MS-OFFCRYPTO] 2.3.4.10-2.3.4.15: key derivation from an XML descriptor, package encrypted in
+ * 4096-byte segments with AES-CBC
+ */
+function decryptAgile({ info, data }: EncryptedPackage, password: string): Buffer | null {
+  const xml = info.subarray(8).toString('utf8')
+  const [keyData] = matchTags(xml, 'keyData')
+  const [encryptedKey] = [...matchTags(xml, 'p:encryptedKey'), ...matchTags(xml, 'encryptedKey')]
+  if (!keyData || !encryptedKey) {
+    throw new Error('Invalid agile EncryptionInfo')
+  }
+
+  const attribute = (tag: string, name: string) => {
+    const value = xmlAttribute(tag, name)
+    if (value === undefined) {
+      throw new Error(`Invalid agile EncryptionInfo: missing ${name}`)
+    }
+    return value
+  }
+  const base64 = (tag: string, name: string) => Buffer.from(attribute(tag, name), 'base64')
+
+  // Password key encryptor
+  const hashAlgorithm = hashName(attribute(encryptedKey, 'hashAlgorithm'))
+  const keyBytes = parseInt(attribute(encryptedKey, 'keyBits'), 10) / 8
+  const cipher = cipherName(attribute(encryptedKey, 'cipherAlgorithm'), keyBytes, 'cbc')
+  const salt = base64(encryptedKey, 'saltValue')
+
+  let hash = digest(hashAlgorithm, salt, Buffer.from(password, 'utf16le'))
+  const spinCount = parseInt(attribute(encryptedKey, 'spinCount'), 10)
+  for (let i = 0; i < spinCount; i++) {
+    hash = digest(hashAlgorithm, uint32(i), hash)
+  }
+
+  const decryptWith = (block: Buffer, value: Buffer) =>
+    decrypt(cipher, fit(digest(hashAlgorithm, hash, block), keyBytes), salt, value)
+
+  const verifierInput = decryptWith(VERIFIER_INPUT_BLOCK, base64(encryptedKey, 'encryptedVerifierHashInput'))
+  const verifierHash = decryptWith(VERIFIER_VALUE_BLOCK, base64(encryptedKey, 'encryptedVerifierHashValue'))
+  const saltSize = parseInt(attribute(encryptedKey, 'saltSize'), 10)
+  const expected = digest(hashAlgorithm, verifierInput.subarray(0, saltSize))
+  if (!verifierHash.subarray(0, expected.length).equals(expected)) {
+    return null
+  }
+  const secretKey = decryptWith(KEY_VALUE_BLOCK, base64(encryptedKey, 'encryptedKeyValue')).subarray(0, keyBytes)
+
+  // Package: each segment uses an IV derived from the key data salt and the segment number
+  const dataHash = hashName(attribute(keyData, 'hashAlgorithm'))
+  const dataCipher = cipherName(
+    attribute(keyData, 'cipherAlgorithm'),
+    parseInt(attribute(keyData, 'keyBits'), 10) / 8,
+    'cbc'
+  )
+  const dataSalt = base64(keyData, 'saltValue')
+  const blockSize = parseInt(attribute(keyData, 'blockSize'), 10)
+  const size = Number(data.readBigUInt64LE(0))
+  const segments: Buffer[] = []
+  for (let offset = 8, i = 0; offset < data.length; offset += SEGMENT_LENGTH, i++) {
+    const iv = fit(digest(dataHash, dataSalt, uint32(i)), blockSize)
+    segments.push(decrypt(dataCipher, secretKey, iv, padBlock(data.subarray(offset, offset + SEGMENT_LENGTH))))
+  }
+  return Buffer.concat(segments).subarray(0, size)
+}
+
+/**
+ * [MS-OFFCRYPTO] 2.3.4.5-2.3.4.9: binary header, SHA-1 key derivation, package encrypted with AES-ECB
+ */
+function decryptStandard({ info, data }: EncryptedPackage, password: string): Buffer | null {
+  const headerSize = info.readUInt32LE(8)
+  const header = info.subarray(12, 12 + headerSize)
+  const keyBytes = header.readUInt32LE(16) / 8
+  const verifier = info.subarray(12 + headerSize)
+  const saltSize = verifier.readUInt32LE(0)
+  const salt = verifier.subarray(4, 4 + saltSize)
+  const encryptedVerifier = verifier.subarray(4 + saltSize, 20 + saltSize)
+  const encryptedVerifierHash = verifier.subarray(24 + saltSize, 56 + saltSize)
+
+  let hash = digest('sha1', salt, Buffer.from(password, 'utf16le'))
+  for (let i = 0; i < 50000; i++) {
+    hash = digest('sha1', uint32(i), hash)
+  }
+  hash = digest('sha1', hash, uint32(0))
+
+  // Expand the hash to the key length with the HMAC-style pads of 2.3.4.7
+  const pad = (byte: number) => {
+    const buffer = Buffer.alloc(64, byte)
+    hash.forEach((value, i) => (buffer[i] ^= value))
+    return digest('sha1', buffer)
+  }
+  const key = Buffer.concat([pad(0x36), pad(0x5c)]).subarray(0, keyBytes)
+
+  const cipher = cipherName('AES', keyBytes, 'ecb')
+  const verifierHash = decrypt(cipher, key, null, encryptedVerifierHash).subarray(0, 20)
+  if (!digest('sha1', decrypt(cipher, key, null, encryptedVerifier)).equals(verifierHash)) {
+    return null
+  }
+
+  const size = Number(data.readBigUInt64LE(0))
+  return decrypt(cipher, key, null, padBlock(data.subarray(8))).subarray(0, size)
+}
+
+function digest(algorithm: string, ...parts: Buffer[]): Buffer {
+  const hash = createHash(algorithm)
+  parts.forEach((part) => hash.update(part))
+  return hash.digest()
+}
+
+function decrypt(cipher: string, key: Buffer, iv: Buffer | null, data: Buffer): Buffer {
+  const decipher = createDecipheriv(cipher, key, iv)
+  decipher.setAutoPadding(false)
+  return Buffer.concat([decipher.update(data), decipher.final()])
+}
+
+/**
+ * Truncate, or pad with 0x36, to the given length
+ */
+function fit(buffer: Buffer, length: number): Buffer {
+  return buffer.length >= length
+    ? buffer.subarray(0, length)
+    : Buffer.concat([buffer, Buffer.alloc(length - buffer.length, 0x36)])
+}
+
+/**
+ * Zero-pad to a whole number of AES blocks
+ */
+function padBlock(buffer: Buffer): Buffer {
+  const remainder = buffer.length % 16
+  return remainder === 0 ? buffer : Buffer.concat([buffer, Buffer.alloc(16 - remainder)])
+}
+
+function uint32(value: number): Buffer {
+  const buffer = Buffer.alloc(4)
+  buffer.writeUInt32LE(value)
+  return buffer
+}
+
+function hashName(algorithm: string): string {
+  const name = algorithm.toLowerCase().replace('-', '')
+  if (!['sha1', 'sha256', 'sha384', 'sha512', 'md5'].includes(name)) {
+    throw new Error(`Unsupported hash algorithm ${algorithm}`)
+  }
+  return name
+}
+
+function cipherName(algorithm: string, keyBytes: number, mode: 'cbc' | 'ecb'): string {
+  if (algorithm !== 'AES' || ![16, 24, 32].includes(keyBytes)) {
+    throw new Error(`Unsupported cipher ${algorithm} with a ${keyBytes * 8}-bit key`)
+  }
+  return `aes-${keyBytes * 8}-${mode}`
+}
@@ -0,0 +1,121 @@
+import path from 'path'
+import * as XLSX from 'xlsx'
+import { readZipEntries } from './zip'
+
+/**
+ * Relationship declared in an OOXML `.rels` part
+ */
+export type Relationship = {
+  id: string
+  type: string // Full relationship type URI
+  target: string // Package path of the target part, or the raw URI for external targets
+  external: boolean
+}
+
+/**
+ * Read the files of a zip archive (or the streams of an OLE2 compound file),
+ * keyed by their path inside the container without a leading slash.
+ * @throws DocSuiteError (CORRUPT_FILE) if a zip archive has no valid central directory
+ */
+export function readPackage(data: Buffer): Map<string, Buffer> {
+  if (data.subarray(0, 2).toString('latin1') === 'PK') {
+    // CFB.read never returns on a zip archive that is cut off before its central directory
+    readZipEntries(data)
+  }
+  const container = XLSX.CFB.read(data, { type: 'buffer' })
+  const root: string = container.FullPaths[0]
+  const entries = new Map<string, Buffer>()
+
+  container.FileIndex.forEach((entry: { type: number; content?: Uint8Array }, i: number) => {
+    // Type 2 is a stream (file); storages and the root entry are directories
+    if (entry.type === 2 && entry.content) {
+      entries.set(container.FullPaths[i].slice(root.length), Buffer.from(entry.content))
+    }
+  })
+
+  return entries
+}
+
+/**
+ * Read the relationships of a part, with targets resolved to package paths
+ * @param entries - Package entries from `readPackage`
+ * @param partPath - Path of the source part, e.g. "ppt/slides/slide1.xml"
+ */
+export function readRelationships(entries: Map<string, Buffer>, partPath: string): Relationship[] {
+  const dir = path.posix.dirname(partPath)
+  const relsPath = path.posix.join(dir === '.' ? '' : dir, '_rels', `${path.posix.basename(partPath)}.rels`)
+  const xml = entries.get(relsPath)?.toString('utf8')
+  if (!xml) {
+    return []
+  }
+
+  return matchTags(xml, 'Relationship').map((tag) => {
+    const target = xmlAttribute(tag, 'Target') ?? ''
+    const external = xmlAttribute(tag, 'TargetMode') === 'External'
+    return {
+      id: xmlAttribute(tag, 'Id') ?? '',
+      type: xmlAttribute(tag, 'Type') ?? '',
+      target: external
+        ? target
+        : target.startsWith('/')
+          ? target.slice(1)
+          : path.posix.normalize(path.posix.join(dir === '.' ? '' : dir, target)),
+      external
+    }
+  })
+}
+
+/**
+ * Opening tags (including self-closing ones) with the given qualified name
+ */
+export function matchTags(xml: string, name: string): string[] {
+  return xml.match(new RegExp(`<${escapeName(name)}(?=[\\s/>])[^>]*>`, 'g')) ?? []
+}
+
+/**
+ * Inner XML of every element with the given qualified name. Self-closing elements are skipped.
+ * Elements of the same name must not nest.
+ */
+export function matchElements(xml: string, name: string): string[] {
+  const tag = escapeName(name)
+  const pattern = new RegExp(`<${tag}(?=[\\s>])[^>]*(?<!/)>([\\s\\S]*?)</${tag}>`, 'g')
+  return [...xml.matchAll(pattern)].map((match) => match[1])
+}
+
+/**
+ * Decoded text content of the first element with the given qualified name
+ */
+export function elementText(xml: string, name: string): string | undefined {
+  const [inner] = matchElements(xml, name)
+  return inner === undefined ? undefined : decodeXml(inner.replace(/<[^>]+>/g, ''))
+}
+
+export function xmlAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${escapeName(name)}="([^"]*)"`))
+  return match ? decodeXml(match[1]) : undefined
+}
+
+export function decodeXml(text: string): string {
+  return text.replace(/&(lt|gt|quot|apos|amp|#\d+|#x[0-9a-fA-F]+);/g, (_, entity: string) => {
+    switch (entity) {
+      case 'lt':
+        return '<'
+      case 'gt':
+        return '>'
+      case 'quot':
+        return '"'
+      case 'apos':
+        return "'"
+      case 'amp':
+        return '&'
+      default:
+        return String.fromCodePoint(
+          entity.startsWith('#x') ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+        )
+    }
+  })
+}
+
+function escapeName(name: string): string {
+  return name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
@@ -0,0 +1,56 @@
+import { DocSuiteError } from './errors'
+
+/**
+ * Parse a page selection such as "1-5,10" or [1, 2, 3] into sorted, unique 1-based page numbers.
+ * Open-ended ranges ("8-") run to the last page; pages beyond `count` are dropped.
+ * @param pages - Comma-separated pages and ranges, or a list of page numbers
+ * @param count - Number of pages, sheets or slides in the document
+ * @throws DocSuiteError (INVALID_INPUT) for a malformed selection, page 0 or a descending range such as "5-2"
+ */
+export function parsePageRanges(pages: string | number[], count: number): number[] {
+  const selected = new Set<number>()
+  const add = (first: number, last: number) => {
+    for (let page = Math.max(first, 1); page <= Math.min(last, count); page++) {
+      selected.add(page)
+    }
+  }
+
+  if (Array.isArray(pages)) {
+    for (const page of pages) {
+      if (!Number.isInteger(page) || page < 1) {
+        throw new DocSuiteError('INVALID_INPUT', `Invalid page number "${page}"`)
+      }
+      add(page, page)
+    }
+  } else {
+    for (const part of pages.split(',')) {
+      const match = part.trim().match(/^(\d+)(?:\s*(-)\s*(\d*))?$/)
+      const first = match ? parseInt(match[1], 10) : 0
+      const last = match?.[2] ? (match[3] ? parseInt(match[3], 10) : Infinity) : first
+      if (first < 1 || last < first) {
+        throw new DocSuiteError('INVALID_INPUT', `Invalid page range "${part.trim()}" in "${pages}"`)
+      }
+      add(first, last)
+    }
+  }
+
+  return [...selected].sort((a, b) => a - b)
+}
+
+/**
+ * Page numbers to extract: the `pages` selection (or every page), restricted by `include`,
+ * then limited to the first `maxPages`.
+ */
+export function selectPages(
+  count: number,
+  limits: { pages?: string | number[]; maxPages?: number },
+  include: (page: number) => boolean = () => true
+): number[] {
+  const pages = limits.pages !== undefined ? parsePageRanges(limits.pages, count) : range(1, count)
+  const included = pages.filter(include)
+  return limits.maxPages !== undefined ? included.slice(0, Math.max(0, limits.maxPages)) : included
+}
+
+function range(first: number, last: number): number[] {
+  return Array.from({ length: Math.max(0, last - first + 1) }, (_, i) => first + i)
+}
@@ -0,0 +1,233 @@
+import { decodeXml, xmlAttribute } from './ooxml'
+
+/**
+ * Rectangle on a PDF page in points, with the origin at the top-left corner of the page
+ */
+export type BoundingBox = {
+  xMin: number
+  yMin: number
+  xMax: number
+  yMax: number
+}
+
+export type PdfTextLine = {
+  text: string
+  bbox: BoundingBox
+  fontSize: number // Approximate size in points, from the height of the words
+}
+
+export type PdfTextBlock = {
+  text: string // Lines joined with newlines
+  bbox: BoundingBox
+  fontSize: number // Median size of the lines
+  lines: PdfTextLine[]
+  role?: 'header' | 'footer' // Running header or footer, repeated on other pages of the selection
+}
+
+/**
+ * Size and text blocks of a PDF page, with the blocks in reading order
+ */
+export type PdfPageLayout = {
+  width: number // Points
+  height: number // Points
+  blocks: PdfTextBlock[]
+}
+
+export type PdfLayoutOptions = {
+  stripHeadersFooters?: boolean // Leave running headers and footers out of the text and the blocks (default false)
+}
+
+/**
+ * Word of the `pdftotext -bbox-layout` output
+ */
+export type LayoutWord = { text: string; bbox: BoundingBox }
+
+export type LayoutLine = { bbox: BoundingBox; words: LayoutWord[] }
+
+export type LayoutBlock = { bbox: BoundingBox; lines: LayoutLine[]; role?: PdfTextBlock['role'] }
+
+/**
+ * Page of the `pdftotext -bbox-layout` output, in Poppler's block order
+ */
+export type LayoutPage = { width: number; height: number; blocks: LayoutBlock[] }
+
+/**
+ * Share of the page height at the top and bottom where running headers and footers are looked for
+ */
+const RUNNING_MARGIN = 0.12
+
+/**
+ * Smallest gap in points between two columns or two rows of blocks
+ */
+const MIN_GAP = 2
+
+/**
+ * Parse the XHTML written by `pdftotext -bbox-layout` into one entry per page
+ */
+export function parseBboxLayout(xhtml: string): LayoutPage[] {
+  return elements(xhtml, 'page').map(({ tag, inner }) => ({
+    width: Number(xmlAttribute(tag, 'width') ?? 0),
+    height: Number(xmlAttribute(tag, 'height') ?? 0),
+    blocks: elements(inner, 'block').map((block) => ({
+      bbox: readBox(block.tag),
+      lines: elements(block.inner, 'line').map((line) => ({
+        bbox: readBox(line.tag),
+        words: elements(line.inner, 'word').map((word) => ({ text: decodeXml(word.inner), bbox: readBox(word.tag) }))
+      }))
+    }))
+  }))
+}
+
+/**
+ * Set `role` on the blocks near the top or bottom edge whose text repeats on at least half of the
+ * pages (and at least two). Numbers are ignored when comparing, so page numbers count as repeated.
+ */
+export function markRunningBlocks(pages: LayoutPage[]): void {
+  if (pages.length < 2) {
+    return
+  }
+  const minPages = Math.max(2, Math.ceil(pages.length / 2))
+
+  for (const role of ['header', 'footer'] as const) {
+    const inMargin = (page: LayoutPage, block: LayoutBlock) =>
+      role === 'header'
+        ? block.bbox.yMax <= page.height * RUNNING_MARGIN
+        : block.bbox.yMin >= page.height * (1 - RUNNING_MARGIN)
+
+    const counts = new Map<string, number>()
+    for (const page of pages) {
+      const keys = new Set(page.blocks.filter((block) => inMargin(page, block)).map(runningKey))
+      keys.forEach((key) => counts.set(key, (counts.get(key) ?? 0) + 1))
+    }
+    for (const page of pages) {
+      for (const block of page.blocks) {
+        if (inMargin(page, block) && (counts.get(runningKey(block)) ?? 0) >= minPages) {
+          block.role = role
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Public layout of a page, with the blocks in reading order
+ */
+export function pageLayout(page: LayoutPage, options: PdfLayoutOptions = {}): PdfPageLayout {
+  const blocks = options.stripHeadersFooters ? page.blocks.filter((block) => !block.role) : page.blocks
+  return {
+    width: page.width,
+    height: page.height,
+    blocks: readingOrder(blocks).map((block) => {
+      const lines = block.lines.map((line) => ({
+        text: lineText(line),
+        bbox: line.bbox,
+        fontSize: round(median(line.words.map((word) => word.bbox.yMax - word.bbox.yMin)))
+      }))
+      return {
+        text: lines.map((line) => line.text).join('\n'),
+        bbox: block.bbox,
+        fontSize: round(median(lines.map((line) => line.fontSize))),
+        lines,
+        ...(block.role ? { role: block.role } : {})
+      }
+    })
+  }
+}
+
+/**
+ * Page text from a layout: the blocks in order, separated by blank lines
+ */
+export function layoutText(layout: PdfPageLayout): string {
+  return layout.blocks.map((block) => block.text).join('\n\n')
+}
+
+export function lineText(line: LayoutLine): string {
+  return line.words.map((word) => word.text).join(' ')
+}
+
+/**
+ * Order blocks for reading with a recursive XY cut: columns separated by a vertical gap are read
+ * left to right, then rows separated by a horizontal gap top to bottom. Trying columns first keeps
+ * paragraph gaps that line up across columns from splitting them.
+ */
+function readingOrder<T extends { bbox: BoundingBox }>(blocks: T[]): T[] {
+  if (blocks.length < 2) {
+    return blocks
+  }
+  const columns = splitByGaps(blocks, 'xMin', 'xMax')
+  if (columns.length > 1) {
+    return columns.flatMap(readingOrder)
+  }
+  const rows = splitByGaps(blocks, 'yMin', 'yMax')
+  if (rows.length > 1) {
+    // Below a full-width block such as a title, consecutive rows with the same columns are one
+    // multi-column section and are read column by column
+    const sections: T[][] = []
+    for (const row of rows) {
+      const last = sections[sections.length - 1]
+      const columnsContinue =
+        last && splitByGaps(row, 'xMin', 'xMax').length > 1 && splitByGaps(last, 'xMin', 'xMax').length > 1
+      if (columnsContinue && splitByGaps([...last, ...row], 'xMin', 'xMax').length > 1) {
+        last.push(...row)
+      } else {
+        sections.push([...row])
+      }
+    }
+    return (sections.length > 1 ? sections : rows).flatMap(readingOrder)
+  }
+  // Overlapping blocks without a clean cut
+  return [...blocks].sort((a, b) => a.bbox.yMin - b.bbox.yMin || a.bbox.xMin - b.bbox.xMin)
+}
+
+/**
+ * Group boxes whose extents on one axis overlap, in ascending order along that axis
+ * @param gap - Smallest distance in points between two groups
+ */
+export function splitByGaps<T extends { bbox: BoundingBox }>(
+  boxes: T[],
+  min: 'xMin' | 'yMin',
+  max: 'xMax' | 'yMax',
+  gap = MIN_GAP
+): T[][] {
+  const groups: T[][] = []
+  let end = -Infinity
+  for (const box of [...boxes].sort((a, b) => a.bbox[min] - b.bbox[min])) {
+    if (box.bbox[min] > end + gap) {
+      groups.push([box])
+    } else {
+      groups[groups.length - 1].push(box)
+    }
+    end = Math.max(end, box.bbox[max])
+  }
+  return groups
+}
+
+function runningKey(block: LayoutBlock): string {
+  return block.lines.map(lineText).join(' ').toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim()
+}
+
+function elements(xml: string, name: string): { tag: string; inner: string }[] {
+  const pattern = new RegExp(`(<${name}(?=[\\s>])[^>]*>)([\\s\\S]*?)</${name}>`, 'g')
+  return [...xml.matchAll(pattern)].map((match) => ({ tag: match[1], inner: match[2] }))
+}
+
+function readBox(tag: string): BoundingBox {
+  const coordinate = (name: string) => round(Number(xmlAttribute(tag, name) ?? 0))
+  return { xMin: coordinate('xMin'), yMin: coordinate('yMin'), xMax: coordinate('xMax'), yMax: coordinate('yMax') }
+}
+
+export function median(values: number[]): number {
+  if (values.length === 0) {
+    return 0
+  }
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+/**
+ * Round to 0.01 pt; Poppler prints six decimals
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
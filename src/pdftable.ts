@@ -0,0 +1,211 @@
+import { type BoundingBox, type LayoutLine, type LayoutPage, type LayoutWord, median, splitByGaps } from './pdflayout'
+
+export type PdfTableOptions = {
+  minRows?: number // Rows with at least two cells needed for a table (default 3)
+  minColumns?: number // Columns needed for a table (default 2)
+  removeFromText?: boolean // Leave the table's lines out of the page text and layout (default false)
+}
+
+/**
+ * Table found on a PDF page
+ */
+export type PdfTable = {
+  bbox: BoundingBox
+  rows: string[][] // Cell text, one entry per column
+  lines: Set<LayoutLine> // Lines of the page that make up the table
+}
+
+/**
+ * Smallest horizontal gap between two cells, in line heights; words of one cell are closer
+ */
+const CELL_GAP = 1
+
+/**
+ * Largest vertical gap between two rows of one table, in line heights
+ */
+const ROW_GAP = 1.5
+
+/**
+ * Most words per cell on average; above it, aligned lines are taken for columns of prose
+ */
+const MAX_CELL_WORDS = 4
+
+type Cell = { bbox: BoundingBox; words: LayoutWord[] }
+
+type Row = { bbox: BoundingBox; lines: LayoutLine[]; cells: Cell[] }
+
+/**
+ * Find tables on a page: runs of rows whose words are split into cells by wide gaps that line up
+ * in columns. Running headers and footers are ignored.
+ */
+export function detectTables(page: LayoutPage, options: PdfTableOptions = {}): PdfTable[] {
+  const { minRows = 3, minColumns = 2 } = options
+  const lines = page.blocks.filter((block) => !block.role).flatMap((block) => block.lines)
+
+  // Rows far apart vertically never belong to the same table
+  const regions: Row[][] = []
+  for (const row of pageRows(lines)) {
+    const region = regions[regions.length - 1]
+    const previous = region?.[region.length - 1]
+    if (previous && row.bbox.yMin - previous.bbox.yMax <= ROW_GAP * height(row.bbox)) {
+      region.push(row)
+    } else {
+      regions.push([row])
+    }
+  }
+  return regions.flatMap((region) => tablesIn(region, minRows, minColumns))
+}
+
+/**
+ * Copy of a page without the lines of the tables; blocks left empty are dropped
+ */
+export function withoutTables(page: LayoutPage, tables: PdfTable[]): LayoutPage {
+  const blocks = page.blocks.flatMap((block) => {
+    const lines = block.lines.filter((line) => !tables.some((table) => table.lines.has(line)))
+    if (lines.length === block.lines.length) {
+      return [block]
+    }
+    return lines.length > 0 ? [{ ...block, bbox: union(lines.map((line) => line.bbox)), lines }] : []
+  })
+  return { ...page, blocks }
+}
+
+/**
+ * Tables in a run of rows. Rows with a single cell are kept inside a table when the cell stays in
+ * one column (e.g. a section label of a financial statement); a wider one, such as a line of
+ * prose, splits the run in two.
+ */
+function tablesIn(region: Row[], minRows: number, minColumns: number): PdfTable[] {
+  const rows = trimRows(region)
+  const tableRows = rows.filter((row) => row.cells.length > 1)
+  if (tableRows.length < minRows) {
+    return []
+  }
+  const columns = tableColumns(tableRows)
+  if (columns.length < minColumns) {
+    return []
+  }
+
+  const split = rows.findIndex(
+    (row) => row.cells.length === 1 && columns.filter((column) => overlap(row.cells[0].bbox, column) > 0).length > 1
+  )
+  if (split !== -1) {
+    return [
+      ...tablesIn(rows.slice(0, split), minRows, minColumns),
+      ...tablesIn(rows.slice(split + 1), minRows, minColumns)
+    ]
+  }
+
+  const cells = tableRows.flatMap((row) => row.cells)
+  if (cells.reduce((sum, cell) => sum + cell.words.length, 0) / cells.length > MAX_CELL_WORDS) {
+    return []
+  }
+
+  return [
+    {
+      bbox: union(rows.map((row) => row.bbox)),
+      rows: rows.map((row) => {
+        const texts: string[][] = columns.map(() => [])
+        row.cells.forEach((cell) => texts[columnIndex(cell.bbox, columns)].push(cellText(cell)))
+        return texts.map((text) => text.join(' '))
+      }),
+      lines: new Set(rows.flatMap((row) => row.lines))
+    }
+  ]
+}
+
+/**
+ * Group lines whose vertical centers are within half a line height into rows, top to bottom, and
+ * split each row into cells
+ */
+function pageRows(lines: LayoutLine[]): Row[] {
+  const groups: { bbox: BoundingBox; lines: LayoutLine[] }[] = []
+  for (const line of [...lines].sort((a, b) => center(a.bbox) - center(b.bbox))) {
+    const group = groups[groups.length - 1]
+    if (group && center(line.bbox) - center(group.bbox) <= Math.min(height(line.bbox), height(group.bbox)) / 2) {
+      group.lines.push(line)
+      group.bbox = union([group.bbox, line.bbox])
+    } else {
+      groups.push({ bbox: line.bbox, lines: [line] })
+    }
+  }
+
+  return groups.map(({ bbox, lines }) => {
+    const words = lines.flatMap((line) => line.words)
+    const lineHeight = median(words.map((word) => height(word.bbox)))
+    const cells = splitByGaps(words, 'xMin', 'xMax', CELL_GAP * lineHeight).map((group) => ({
+      bbox: union(group.map((word) => word.bbox)),
+      words: group
+    }))
+    return { bbox, lines, cells }
+  })
+}
+
+/**
+ * Column extents of a table, from the rows with the most common number of cells. Rows with fewer
+ * cells (headers over some of the columns, totals) would merge columns.
+ */
+function tableColumns(rows: Row[]): BoundingBox[] {
+  const counts = new Map<number, number>()
+  rows.forEach((row) => counts.set(row.cells.length, (counts.get(row.cells.length) ?? 0) + 1))
+  const [cellCount] = [...counts].sort(([a, countA], [b, countB]) => countB - countA || b - a)[0]
+
+  const cells = rows.filter((row) => row.cells.length === cellCount).flatMap((row) => row.cells)
+  return splitByGaps(cells, 'xMin', 'xMax').map((column) => union(column.map((cell) => cell.bbox)))
+}
+
+/**
+ * Column a cell overlaps the most, or the nearest one for a cell between columns
+ */
+function columnIndex(bbox: BoundingBox, columns: BoundingBox[]): number {
+  const middle = (box: BoundingBox) => (box.xMin + box.xMax) / 2
+  let best = 0
+  for (let i = 1; i < columns.length; i++) {
+    const [current, candidate] = [overlap(bbox, columns[best]), overlap(bbox, columns[i])]
+    if (
+      candidate > current ||
+      (candidate === current &&
+        Math.abs(middle(columns[i]) - middle(bbox)) < Math.abs(middle(columns[best]) - middle(bbox)))
+    ) {
+      best = i
+    }
+  }
+  return best
+}
+
+/**
+ * Leading and trailing rows with a single cell are titles, notes or prose next to the table
+ */
+function trimRows(rows: Row[]): Row[] {
+  const first = rows.findIndex((row) => row.cells.length > 1)
+  const last = rows.findLastIndex((row) => row.cells.length > 1)
+  return first === -1 ? [] : rows.slice(first, last + 1)
+}
+
+function cellText(cell: Cell): string {
+  return cell.words.map((word) => word.text).join(' ')
+}
+
+/**
+ * Horizontal overlap of two boxes in points
+ */
+function overlap(a: BoundingBox, b: BoundingBox): number {
+  return Math.max(0, Math.min(a.xMax, b.xMax) - Math.max(a.xMin, b.xMin))
+}
+
+function union(boxes: BoundingBox[]): BoundingBox {
+  return {
+    xMin: Math.min(...boxes.map((box) => box.xMin)),
+    yMin: Math.min(...boxes.map((box) => box.yMin)),
+    xMax: Math.max(...boxes.map((box) => box.xMax)),
+    yMax: Math.max(...boxes.map((box) => box.yMax))
+  }
+}
+
+function center(bbox: BoundingBox): number {
+  return (bbox.yMin + bbox.yMax) / 2
+}
+
+function height(bbox: BoundingBox): number {
+  return bbox.yMax - bbox.yMin
+}
@@ -0,0 +1,52 @@
+/**
+ * Map items through an async function with at most `concurrency` calls in flight, yielding
+ * results in input order as soon as they are ready. A new call starts each time a result is taken
+ * from the head of the queue, so a slow consumer holds at most `concurrency` pending results.
+ * After a call rejects, no further items are started and the rejection is thrown.
+ *
+ * Each call gets a signal that is aborted with `signal`, and when the generator finishes early
+ * (the consumer stops iterating, or a call rejects). The generator only completes once the calls
+ * in flight have settled, so they are done with any shared resources by then.
+ */
+export async function* mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number, signal: AbortSignal) => Promise<R>,
+  signal?: AbortSignal
+): AsyncGenerator<R> {
+  const limit = Math.max(1, Math.floor(concurrency) || 1)
+  const inFlight: Promise<R>[] = []
+  let next = 0
+
+  const controller = new AbortController()
+  const forward = () => controller.abort(signal?.reason)
+  if (signal?.aborted) {
+    forward()
+  }
+  signal?.addEventListener('abort', forward, { once: true })
+
+  const fill = () => {
+    while (next < items.length && inFlight.length < limit) {
+      const index = next++
+      const call = fn(items[index], index, controller.signal)
+      // Rejections are rethrown when the call reaches the head of the queue
+      call.catch(() => {})
+      inFlight.push(call)
+    }
+  }
+
+  try {
+    fill()
+    while (inFlight.length > 0) {
+      const result = await inFlight.shift()!
+      fill()
+      yield result
+    }
+  } finally {
+    signal?.removeEventListener('abort', forward)
+    if (inFlight.length > 0) {
+      controller.abort(new DOMException('Stopped before all items were processed', 'AbortError'))
+      await Promise.allSettled(inFlight)
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import { execFile } from 'child_process'
+import path from 'path'
+import { promisify } from 'util'
+import { Poppler } from 'node-poppler'
+
+const execFileAsync = promisify(execFile)
+
+type OptionArg = { arg: string; type: 'boolean' | 'number' | 'string' }
+
+export type PageRangeOptions = {
+  firstPageToConvert?: number
+  lastPageToConvert?: number
+}
+
+export type PdfInfoOptions = {
+  printIsoDates?: boolean
+}
+
+export type PdfToTextOptions = PageRangeOptions & {
+  boundingBoxXhtmlLayout?: boolean
+}
+
+export type PdfImagesOptions = PageRangeOptions & {
+  allFiles?: boolean
+  pngFile?: boolean
+  jpegFile?: boolean
+}
+
+export type PdfToCairoOptions = PageRangeOptions & {
+  jpegFile?: boolean
+  jpegOptions?: string
+  pngFile?: boolean
+  resolutionXYAxis?: number
+  scalePageTo?: number
+  cropBox?: boolean
+  singleFile?: boolean
+  antialias?: 'default' | 'none' | 'gray' | 'subpixel' | 'fast' | 'good' | 'best'
+}
+
+const PAGE_RANGE_ARGS: Record<keyof PageRangeOptions, OptionArg> = {
+  firstPageToConvert: { arg: '-f', type: 'number' },
+  lastPageToConvert: { arg: '-l', type: 'number' }
+}
+
+const PDF_INFO_ARGS: Record<keyof PdfInfoOptions, OptionArg> = {
+  printIsoDates: { arg: '-isodates', type: 'boolean' }
+}
+
+const PDF_TO_TEXT_ARGS: Record<keyof PdfToTextOptions, OptionArg> = {
+  ...PAGE_RANGE_ARGS,
+  boundingBoxXhtmlLayout: { arg: '-bbox-layout', type: 'boolean' }
+}
+
+const PDF_IMAGES_ARGS: Record<keyof PdfImagesOptions, OptionArg> = {
+  ...PAGE_RANGE_ARGS,
+  allFiles: { arg: '-all', type: 'boolean' },
+  pngFile: { arg: '-png', type: 'boolean' },
+  jpegFile: { arg: '-j', type: 'boolean' }
+}
+
+const PDF_TO_CAIRO_ARGS: Record<keyof PdfToCairoOptions, OptionArg> = {
+  ...PAGE_RANGE_ARGS,
+  jpegFile: { arg: '-jpeg', type: 'boolean' },
+  jpegOptions: { arg: '-jpegopt', type: 'string' },
+  pngFile: { arg: '-png', type: 'boolean' },
+  resolutionXYAxis: { arg: '-r', type: 'number' },
+  scalePageTo: { arg: '-scale-to', type: 'number' },
+  cropBox: { arg: '-cropbox', type: 'boolean' },
+  singleFile: { arg: '-singlefile', type: 'boolean' },
+  antialias: { arg: '-antialias', type: 'string' }
+}
+
+/**
+ * Runs the Poppler command-line tools with the same calls as node-poppler, but as child
+ * processes that are killed when the signal aborts.
+ */
+export class AbortablePoppler {
+  static #binDir?: string
+
+  readonly #signal?: AbortSignal
+  readonly #password?: string
+
+  /**
+   * @param password - Passed to every tool as both the owner and the user password of encrypted PDFs
+   */
+  constructor(signal?: AbortSignal, password?: string) {
+    this.#signal = signal
+    this.#password = password
+  }
+
+  async pdfInfo(file: string, options: PdfInfoOptions = {}): Promise<string> {
+    return this.#run('pdfinfo', [...toArgs(PDF_INFO_ARGS, options), file])
+  }
+
+  /**
+   * Extract text; without an output file the text is returned. Pages end with a form feed.
+   * With `boundingBoxXhtmlLayout`, the output is XHTML with the blocks, lines and words of each page and their boxes.
+   */
+  async pdfToText(file: string, outputFile: string | undefined, options: PdfToTextOptions = {}): Promise<string> {
+    return this.#run('pdftotext', [...toArgs(PDF_TO_TEXT_ARGS, options), file, outputFile ?? '-'])
+  }
+
+  async pdfImages(file: string, outputPrefix: string, options: PdfImagesOptions = {}): Promise<string> {
+    return this.#run('pdfimages', [...toArgs(PDF_IMAGES_ARGS, options), file, outputPrefix])
+  }
+
+  async pdfToCairo(file: string, outputFile: string, options: PdfToCairoOptions = {}): Promise<string> {
+    return this.#run('pdftocairo', [...toArgs(PDF_TO_CAIRO_ARGS, options), file, outputFile])
+  }
+
+  async #run(tool: string, args: string[]): Promise<string> {
+    // Reuse node-poppler's lookup of the binary directory (PATH, or the bundled binaries on Windows)
+    AbortablePoppler.#binDir ??= new Poppler().path
+    const passwordArgs = this.#password !== undefined ? ['-opw', this.#password, '-upw', this.#password] : []
+    const { stdout } = await execFileAsync(path.join(AbortablePoppler.#binDir, tool), [...passwordArgs, ...args], {
+      signal: this.#signal,
+      maxBuffer: Infinity
+    })
+    return stdout
+  }
+}
+
+function toArgs<T extends object>(accepted: Record<keyof T, OptionArg>, options: T): string[] {
+  const args: string[] = []
+  for (const [key, value] of Object.entries(options)) {
+    const option = accepted[key as keyof T]
+    if (!option || value === undefined || value === false) {
+      continue
+    }
+    args.push(option.arg)
+    if (option.type !== 'boolean') {
+      args.push(String(value))
+    }
+  }
+  return args
+}
@@ -0,0 +1,130 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { decodeXml, matchElements, matchTags, readPackage, readRelationships, xmlAttribute } from './ooxml'
+
+/**
+ * Content of a single slide, in presentation order
+ */
+export type PptxSlide = {
+  number: number // 1-based position in the presentation
+  title?: string
+  body: string // Text of every other shape, one paragraph per line
+  tables: string[][][]
+  notes?: string // Speaker notes
+  images: { contentType: string; data: Buffer }[]
+}
+
+const TITLE_PLACEHOLDERS = new Set(['title', 'ctrTitle'])
+
+/**
+ * Placeholders that only carry slide furniture (number, date, footer)
+ */
+const FURNITURE_PLACEHOLDERS = new Set(['sldNum', 'dt', 'ftr', 'hdr'])
+
+const IMAGE_CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.bmp': 'image/bmp',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff',
+  '.svg': 'image/svg+xml',
+  '.emf': 'image/emf',
+  '.wmf': 'image/wmf'
+}
+
+/**
+ * Read the slides of a PowerPoint file with their titles, body text, tables,
+ * speaker notes and pictures.
+ * @param filePath - Path of the .pptx file
+ */
+export async function readPptxSlides(filePath: string): Promise<PptxSlide[]> {
+  const entries = readPackage(await fs.readFile(filePath))
+  const presentation = entries.get('ppt/presentation.xml')?.toString('utf8')
+  if (!presentation) {
+    throw new Error('Invalid PPTX file structure')
+  }
+
+  // Slide order comes from the slide id list, not from the relationship order
+  const relationships = new Map(readRelationships(entries, 'ppt/presentation.xml').map((rel) => [rel.id, rel]))
+  const slidePaths = matchTags(presentation, 'p:sldId')
+    .map((tag) => relationships.get(xmlAttribute(tag, 'r:id') ?? '')?.target)
+    .filter((target): target is string => !!target && entries.has(target))
+
+  return slidePaths.map((slidePath, i) => readSlide(entries, slidePath, i + 1))
+}
+
+function readSlide(entries: Map<string, Buffer>, slidePath: string, number: number): PptxSlide {
+  const xml = entries.get(slidePath)!.toString('utf8')
+  const relationships = readRelationships(entries, slidePath)
+  const slide: PptxSlide = { number, body: '', tables: [], images: [] }
+
+  const titles: string[] = []
+  const body: string[] = []
+  for (const shape of matchElements(xml, 'p:sp')) {
+    const placeholder = placeholderType(shape)
+    const text = shapeText(shape)
+    if (!text || (placeholder && FURNITURE_PLACEHOLDERS.has(placeholder))) {
+      continue
+    }
+    if (placeholder && TITLE_PLACEHOLDERS.has(placeholder)) {
+      titles.push(text)
+    } else {
+      body.push(text)
+    }
+  }
+  slide.title = titles.length > 0 ? titles.join('\n') : undefined
+  slide.body = body.join('\n')
+
+  slide.tables = matchElements(xml, 'a:tbl').map((table) =>
+    matchElements(table, 'a:tr').map((row) => matchElements(row, 'a:tc').map((cell) => shapeText(cell)))
+  )
+
+  const notesPath = relationships.find((rel) => rel.type.endsWith('/notesSlide'))?.target
+  const notesXml = notesPath ? entries.get(notesPath)?.toString('utf8') : undefined
+  if (notesXml) {
+    const notes = matchElements(notesXml, 'p:sp')
+      .filter((shape) => placeholderType(shape) === 'body')
+      .map(shapeText)
+      .filter((text) => text.length > 0)
+      .join('\n')
+    slide.notes = notes || undefined
+  }
+
+  const seen = new Set<string>()
+  for (const blip of matchTags(xml, 'a:blip')) {
+    const target = relationships.find((rel) => rel.id === xmlAttribute(blip, 'r:embed') && !rel.external)?.target
+    const data = target ? entries.get(target) : undefined
+    if (!target || !data || seen.has(target)) {
+      continue
+    }
+    seen.add(target)
+    slide.images.push({
+      contentType: IMAGE_CONTENT_TYPES[path.posix.extname(target).toLowerCase()] ?? 'application/octet-stream',
+      data
+    })
+  }
+
+  return slide
+}
+
+function placeholderType(shape: string): string | undefined {
+  const [placeholder] = matchTags(shape, 'p:ph')
+  // A placeholder without a type is a body placeholder
+  return placeholder ? (xmlAttribute(placeholder, 'type') ?? 'body') : undefined
+}
+
+/**
+ * Text of every paragraph in a shape or table cell, one paragraph per line
+ */
+function shapeText(xml: string): string {
+  return matchElements(xml, 'a:p')
+    .map((paragraph) =>
+      [...paragraph.matchAll(/<a:t(?:\s[^>]*)?>([^<]*)<\/a:t>|<a:br\b[^>]*>/g)]
+        .map((match) => (match[1] !== undefined ? decodeXml(match[1]) : '\n'))
+        .join('')
+    )
+    .join('\n')
+    .trim()
+}
@@ -0,0 +1,156 @@
+import type { ExtractionResult, ExtractionWarning } from './DocSuite'
+
+/**
+ * Progress events emitted during extraction. Page events use the page, sheet or slide number.
+ */
+export type ProgressEvent =
+  | { type: 'started'; data: { fileName: string } }
+  | { type: 'page_started'; data: { fileName: string; page: number; totalPages: number } }
+  | {
+      type: 'page_completed'
+      data: {
+        fileName: string
+        page: number
+        totalPages: number
+        durationMs: number
+        resultCount: number
+        errorCount: number
+      }
+    }
+  | { type: 'image_extracted'; data: { fileName: string; page: number; index?: number; isFullPage?: boolean } }
+  | { type: 'warning'; data: { fileName: string; warning: ExtractionWarning } }
+  | {
+      type: 'finished'
+      data: {
+        fileName: string
+        durationMs: number
+        resultCount: number
+        errorCount: number
+        results?: ExtractionResult[] // Final results, after post-processing; omitted by extractStream
+      }
+    }
+  // Deprecated: emitted by the PDF extractor before each page; use 'page_started'
+  | { type: 'embedding_page'; data: { currentPage: number; totalPages: number } }
+
+export type ProgressCallback = (event: ProgressEvent) => void
+
+/**
+ * Emit `page_started` for a page, sheet or slide. The returned function emits an `image_extracted`
+ * event for every image result of the page, then `page_completed`.
+ */
+export function startPage(
+  progress: ProgressCallback | undefined,
+  page: { fileName: string; page: number; totalPages: number }
+): (results: ExtractionResult[]) => void {
+  if (!progress) {
+    return () => {}
+  }
+
+  const start = Date.now()
+  progress({ type: 'page_started', data: page })
+
+  return (results) => {
+    for (const result of results) {
+      if (result.type === 'image') {
+        progress({
+          type: 'image_extracted',
+          data: {
+            fileName: page.fileName,
+            page: page.page,
+            ...(result.index !== undefined ? { index: result.index } : {}),
+            ...(result.isFullPage ? { isFullPage: true } : {})
+          }
+        })
+      }
+    }
+    progress({
+      type: 'page_completed',
+      data: {
+        ...page,
+        durationMs: Date.now() - start,
+        resultCount: results.length,
+        errorCount: results.filter((result) => result.type === null).length
+      }
+    })
+  }
+}
+
+/**
+ * Emit `started` for a document. The returned tracker emits a `warning` event for each distinct
+ * warning of the results passed to `add`, and `finished` with the totals.
+ */
+export function trackRun(
+  progress: ProgressCallback | undefined,
+  fileName: string
+): { add: (results: ExtractionResult[]) => void; finish: (results?: ExtractionResult[]) => void } {
+  if (!progress) {
+    return { add: () => {}, finish: () => {} }
+  }
+
+  const start = Date.now()
+  const seen = new Set<string>()
+  let resultCount = 0
+  let errorCount = 0
+  progress({ type: 'started', data: { fileName } })
+
+  return {
+    add: (results) => {
+      resultCount += results.length
+      errorCount += results.filter((result) => result.type === null).length
+      for (const warning of results.flatMap((result) => result.warnings ?? [])) {
+        const key = `${warning.code}\0${warning.stage ?? ''}\0${warning.message}`
+        if (!seen.has(key)) {
+          seen.add(key)
+          progress({ type: 'warning', data: { fileName, warning } })
+        }
+      }
+    },
+    finish: (results) => {
+      progress({
+        type: 'finished',
+        data: { fileName, durationMs: Date.now() - start, resultCount, errorCount, ...(results ? { results } : {}) }
+      })
+    }
+  }
+}
+
+/**
+ * Expose the events emitted by `run` as an async iterator. The iterator ends when `run` resolves
+ * and throws if it rejects.
+ */
+export async function* progressEvents<E>(run: (emit: (event: E) => void) => Promise<unknown>): AsyncGenerator<E> {
+  const queue: E[] = []
+  let wake: (() => void) | undefined
+  let done = false
+  let failure: { error: unknown } | undefined
+
+  run((event) => {
+    queue.push(event)
+    wake?.()
+  })
+    .catch((error) => {
+      failure = { error }
+    })
+    .finally(() => {
+      done = true
+      wake?.()
+    })
+
+  while (true) {
+    if (queue.length > 0) {
+      yield queue.shift()!
+      continue
+    }
+    if (done) {
+      break
+    }
+    await new Promise<void>((resolve) => {
+      wake = resolve
+    })
+    wake = undefined
+  }
+
+  if (failure) {
+    throw failure.error
+  }
+}
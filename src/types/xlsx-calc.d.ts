@@ -0,0 +1,10 @@
+declare module 'xlsx-calc' {
+  import type { WorkBook } from 'xlsx'
+
+  /**
+   * Recompute every formula cell of a SheetJS workbook in place
+   */
+  function XLSX_CALC(workbook: WorkBook, options?: { continue_after_error?: boolean; log_error?: boolean }): void
+
+  export = XLSX_CALC
+}
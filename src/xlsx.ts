@@ -0,0 +1,120 @@
+import * as XLSX from 'xlsx'
+import XLSX_CALC from 'xlsx-calc'
+import { toMarkdownTable } from './format'
+
+/**
+ * Single cell of a worksheet, as returned by the "cells" output mode
+ */
+export type XlsxCell = {
+  address: string // A1-style address
+  row: number // 1-based
+  column: number // 1-based
+  type: string // SheetJS cell type: b, n, e, s, d or z
+  value: unknown
+  formatted?: string // Value as displayed with the cell's number format
+  formula?: string
+  numberFormat?: string
+}
+
+/**
+ * Recompute all formulas with xlsx-calc. Formatted text cached in the file is dropped for
+ * recomputed cells so exports reflect the new values.
+ */
+export function recalculateWorkbook(wb: XLSX.WorkBook): void {
+  XLSX_CALC(wb, { continue_after_error: true })
+
+  for (const ws of Object.values(wb.Sheets)) {
+    for (const cell of sheetCellObjects(ws)) {
+      if (cell.f && cell.t !== 'e') {
+        delete cell.w
+      }
+    }
+  }
+}
+
+/**
+ * Copy the top-left value of each merged range into every cell it covers
+ */
+export function fillMergedCells(ws: XLSX.WorkSheet): void {
+  for (const merge of ws['!merges'] ?? []) {
+    const originAddress = XLSX.utils.encode_cell(merge.s)
+    const origin: XLSX.CellObject | undefined = ws[originAddress]
+    if (!origin) {
+      continue
+    }
+
+    // Covered cells get the value only; the formula stays on the origin cell
+    const { f, ...value } = origin
+    for (let r = merge.s.r; r <= merge.e.r; r++) {
+      for (let c = merge.s.c; c <= merge.e.c; c++) {
+        const address = XLSX.utils.encode_cell({ r, c })
+        if (address !== originAddress) {
+          ws[address] = { ...value }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Render a worksheet as a Markdown table of formatted values, with the first row as the header
+ */
+export function sheetToMarkdown(ws: XLSX.WorkSheet): string {
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(ws, { header: 1, raw: false, defval: '', blankrows: false })
+  return toMarkdownTable(rows.map((row) => row.map((value) => String(value ?? ''))))
+}
+
+/**
+ * Render a worksheet as a JSON array of row objects keyed by the header row
+ */
+export function sheetToJson(ws: XLSX.WorkSheet): string {
+  return JSON.stringify(XLSX.utils.sheet_to_json(ws, { raw: true, defval: null }))
+}
+
+/**
+ * Render a worksheet as a JSON array of every non-empty cell with its formula and formatted value
+ */
+export function sheetToCells(ws: XLSX.WorkSheet): string {
+  const cells: XlsxCell[] = []
+
+  for (const address of sheetAddresses(ws)) {
+    const cell: XLSX.CellObject = ws[address]
+    const { r, c } = XLSX.utils.decode_cell(address)
+    cells.push({
+      address,
+      row: r + 1,
+      column: c + 1,
+      type: cell.t,
+      value: cell.v ?? null,
+      formatted: cell.w ?? (cell.v !== undefined ? XLSX.utils.format_cell(cell) : undefined),
+      formula: cell.f,
+      numberFormat: typeof cell.z === 'string' ? cell.z : undefined
+    })
+  }
+
+  return JSON.stringify(cells)
+}
+
+/**
+ * Merged ranges of a worksheet as A1-style ranges (e.g. "A1:C1")
+ */
+export function sheetMerges(ws: XLSX.WorkSheet): string[] {
+  return (ws['!merges'] ?? []).map((range) => XLSX.utils.encode_range(range))
+}
+
+/**
+ * Cell addresses of a worksheet in row-major order
+ */
+function sheetAddresses(ws: XLSX.WorkSheet): string[] {
+  return Object.keys(ws)
+    .filter((key) => !key.startsWith('!'))
+    .map((address) => ({ address, ...XLSX.utils.decode_cell(address) }))
+    .sort((a, b) => a.r - b.r || a.c - b.c)
+    .map(({ address }) => address)
+}
+
+function sheetCellObjects(ws: XLSX.WorkSheet): XLSX.CellObject[] {
+  return Object.keys(ws)
+    .filter((key) => !key.startsWith('!'))
+    .map((address) => ws[address] as XLSX.CellObject)
+}
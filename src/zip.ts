@@ -0,0 +1,143 @@
+import { inflateRaw } from 'zlib'
+import { promisify } from 'util'
+import { DocSuiteError } from './errors'
+
+const inflateRawAsync = promisify(inflateRaw)
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50
+const ZIP64_LOCATOR = 0x07064b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+/**
+ * File in a zip archive, as declared by the central directory
+ */
+export type ZipEntry = {
+  name: string // Path inside the archive, `/`-separated
+  size: number // Uncompressed size in bytes
+  compressedSize: number
+  method: number // 0: stored, 8: deflated
+  encrypted: boolean
+  offset: number // Offset of the local file header
+}
+
+/**
+ * List the files of a zip archive from its central directory, without decompressing anything.
+ * Directory entries are left out.
+ * @throws DocSuiteError (CORRUPT_FILE) if the archive has no valid central directory
+ */
+export function readZipEntries(archive: Buffer): ZipEntry[] {
+  // The end of central directory record is followed by a comment of at most 64 KiB
+  let end = -1
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - 0xffff); i--) {
+    if (archive.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      end = i
+      break
+    }
+  }
+  if (end === -1) {
+    throw new DocSuiteError('CORRUPT_FILE', 'Invalid zip archive: end of central directory not found')
+  }
+
+  let count = archive.readUInt16LE(end + 10)
+  let offset = archive.readUInt32LE(end + 16)
+  if ((count === 0xffff || offset === 0xffffffff) && end >= 20 && archive.readUInt32LE(end - 20) === ZIP64_LOCATOR) {
+    const zip64End = Number(archive.readBigUInt64LE(end - 12))
+    if (archive.readUInt32LE(zip64End) !== ZIP64_END_OF_CENTRAL_DIRECTORY) {
+      throw new DocSuiteError('CORRUPT_FILE', 'Invalid zip archive: ZIP64 end of central directory not found')
+    }
+    count = Number(archive.readBigUInt64LE(zip64End + 32))
+    offset = Number(archive.readBigUInt64LE(zip64End + 48))
+  }
+
+  const entries: ZipEntry[] = []
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new DocSuiteError('CORRUPT_FILE', 'Invalid zip archive: truncated central directory')
+    }
+    const flags = archive.readUInt16LE(offset + 8)
+    const nameLength = archive.readUInt16LE(offset + 28)
+    const extraLength = archive.readUInt16LE(offset + 30)
+    const commentLength = archive.readUInt16LE(offset + 32)
+    // Bit 11: UTF-8 name; older archivers write the local code page, read here as Latin-1
+    const name = archive.toString(flags & 0x800 ? 'utf8' : 'latin1', offset + 46, offset + 46 + nameLength)
+    const entry: ZipEntry = {
+      name,
+      size: archive.readUInt32LE(offset + 24),
+      compressedSize: archive.readUInt32LE(offset + 20),
+      method: archive.readUInt16LE(offset + 10),
+      encrypted: (flags & 0x1) !== 0,
+      offset: archive.readUInt32LE(offset + 42)
+    }
+    readZip64Fields(entry, archive.subarray(offset + 46 + nameLength, offset + 46 + nameLength + extraLength))
+
+    if (!name.endsWith('/')) {
+      entries.push(entry)
+    }
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+  return entries
+}
+
+/**
+ * Decompress one file of a zip archive
+ * @param maxSize - Largest accepted uncompressed size (default: the declared size); larger output stops
+ * decompression with a LIMIT_EXCEEDED error
+ */
+export async function readZipEntry(archive: Buffer, entry: ZipEntry, maxSize = entry.size): Promise<Buffer> {
+  if (entry.encrypted) {
+    throw new DocSuiteError('UNSUPPORTED_FORMAT', `Encrypted zip entries are not supported: ${entry.name}`)
+  }
+  if (archive.readUInt32LE(entry.offset) !== LOCAL_FILE_HEADER) {
+    throw new DocSuiteError('CORRUPT_FILE', `Invalid zip archive: local header of ${entry.name} not found`)
+  }
+  // The local header repeats the name and has its own extra field, which may differ in length
+  const start = entry.offset + 30 + archive.readUInt16LE(entry.offset + 26) + archive.readUInt16LE(entry.offset + 28)
+  const data = archive.subarray(start, start + entry.compressedSize)
+
+  switch (entry.method) {
+    case 0:
+      if (data.length > maxSize) {
+        throw tooLarge(entry, maxSize)
+      }
+      return data
+    case 8:
+      try {
+        return await inflateRawAsync(data, { maxOutputLength: Math.max(1, maxSize) })
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+          throw tooLarge(entry, maxSize)
+        }
+        throw e
+      }
+    default:
+      throw new DocSuiteError('UNSUPPORTED_FORMAT', `Unsupported zip compression method ${entry.method}: ${entry.name}`)
+  }
+}
+
+function tooLarge(entry: ZipEntry, maxSize: number): DocSuiteError {
+  return new DocSuiteError('LIMIT_EXCEEDED', `Zip entry ${entry.name} is larger than ${maxSize} bytes`)
+}
+
+/**
+ * Replace sizes and offsets stored as 0xFFFFFFFF with the values of the ZIP64 extra field
+ */
+function readZip64Fields(entry: ZipEntry, extra: Buffer): void {
+  for (let i = 0; i + 4 <= extra.length; ) {
+    const id = extra.readUInt16LE(i)
+    const length = extra.readUInt16LE(i + 2)
+    if (id === 0x0001) {
+      // Only the fields that overflowed are present, in this order
+      let field = i + 4
+      for (const key of ['size', 'compressedSize', 'offset'] as const) {
+        if (entry[key] === 0xffffffff && field + 8 <= i + 4 + length) {
+          entry[key] = Number(extra.readBigUInt64LE(field))
+          field += 8
+        }
+      }
+      return
+    }
+    i += 4 + length
+  }
+}
@@ -0,0 +1,64 @@
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { DocSuite, ExtractionResult, MemoryCache } from '../src'
+import { resultCacheKey } from '../src/cache'
+
+describe('result cache', () => {
+  let dir: string
+  let filePath: string
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'docsuite-test-'))
+    filePath = path.join(dir, 'notes.note')
+    await fs.writeFile(filePath, 'hello')
+  })
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  function countingSuite(): { docsuite: DocSuite; calls: () => number } {
+    let calls = 0
+    const docsuite = new DocSuite({ cache: new MemoryCache() })
+    docsuite.registerExtractor('.note', async (file): Promise<ExtractionResult[]> => {
+      calls++
+      return [{ type: 'text', fileName: path.basename(file), page: 1, contents: await fs.readFile(file, 'utf8') }]
+    })
+    return { docsuite, calls: () => calls }
+  }
+
+  it('returns cached results for the same file and options', async () => {
+    const { docsuite, calls } = countingSuite()
+    await docsuite.extract(filePath)
+    const [result] = await docsuite.extract(filePath)
+    expect(result.cached).toBe(true)
+    expect(result.contents).toBe('hello')
+    expect(calls()).toBe(1)
+  })
+
+  it('keys the results by password', async () => {
+    const { docsuite, calls } = countingSuite()
+    await docsuite.extract(filePath, { password: 'secret' })
+    expect((await docsuite.extract(filePath))[0].cached).toBe(false)
+    expect((await docsuite.extract(filePath, { password: 'wrong' }))[0].cached).toBe(false)
+    expect((await docsuite.extract(filePath, { password: 'secret' }))[0].cached).toBe(true)
+    expect(calls()).toBe(3)
+  })
+
+  it('does not cache when the options contain a function', async () => {
+    const { docsuite, calls } = countingSuite()
+    const engine = async () => ({ text: '', confidence: 0 })
+    await docsuite.extract(filePath, { pdf: { ocr: { engine } } })
+    const [result] = await docsuite.extract(filePath, { pdf: { ocr: { engine } } })
+    expect(result.cached).toBeUndefined()
+    expect(calls()).toBe(2)
+  })
+
+  it('builds keys that do not depend on the order of the options', async () => {
+    const key = await resultCacheKey(filePath, { pdf: { images: false, concurrency: 2 }, pages: '1' })
+    expect(await resultCacheKey(filePath, { pages: '1', pdf: { concurrency: 2, images: false } })).toBe(key)
+    expect(await resultCacheKey(filePath, { pages: '2', pdf: { concurrency: 2, images: false } })).not.toBe(key)
+    expect(await resultCacheKey(filePath, { engine: () => undefined })).toBeUndefined()
+  })
+})
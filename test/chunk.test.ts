@@ -0,0 +1,94 @@
+import { DocSuite, DocSuiteError } from '../src'
+import { chunkResults } from '../src/chunk'
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length
+
+describe('chunkResults', () => {
+  it('packs paragraphs of consecutive pages and records the page span', () => {
+    const chunks = chunkResults(
+      [
+        { type: 'text', fileName: 'a.pdf', page: 1, contents: 'one two\n\nthree' },
+        { type: 'text', fileName: 'a.pdf', page: 2, contents: 'four five' }
+      ],
+      { maxTokens: 4, countTokens: countWords }
+    )
+    expect(chunks.map(({ contents, page, pageEnd }) => ({ contents, page, pageEnd }))).toEqual([
+      { contents: 'one two\n\nthree', page: 1, pageEnd: 1 },
+      { contents: 'four five', page: 2, pageEnd: 2 }
+    ])
+  })
+
+  it('splits long Markdown tables between rows and keeps the line breaks', () => {
+    const rows = ['| Name | Amount |', '| --- | --- |', ...Array.from({ length: 8 }, (_, i) => `| Item ${i} | ${i} |`)]
+    const chunks = chunkResults([{ type: 'text', fileName: 'a.docx', page: 1, contents: rows.join('\n') }], {
+      maxTokens: 20,
+      countTokens: countWords
+    })
+
+    expect(chunks.length).toBeGreaterThan(1)
+    const lines = chunks.flatMap((chunk) => chunk.contents.split('\n'))
+    expect(lines).toEqual(rows)
+    chunks.forEach((chunk) => expect(chunk.tokens).toBeLessThanOrEqual(20))
+  })
+
+  it('keeps fenced code blocks whole, including blank lines inside them', () => {
+    const code = '```\nconst a = 1\n\nconst b = 2\n```'
+    const chunks = chunkResults(
+      [{ type: 'text', fileName: 'a.md', page: 1, contents: `Intro text here.\n\n${code}\n\nOutro.` }],
+      { maxTokens: 6, countTokens: countWords }
+    )
+    expect(chunks.map((chunk) => chunk.contents)).toContain(code)
+  })
+
+  it('splits long prose into sentences, then words', () => {
+    const contents = 'First sentence here.\nSecond sentence is a little longer than the limit allows.'
+    const chunks = chunkResults([{ type: 'text', fileName: 'a.pdf', page: 1, contents }], {
+      maxTokens: 5,
+      countTokens: countWords
+    })
+    expect(chunks[0].contents).toBe('First sentence here.')
+    expect(chunks.map((chunk) => chunk.contents).join(' ')).toBe(contents.replace('\n', ' '))
+    chunks.forEach((chunk) => expect(chunk.tokens).toBeLessThanOrEqual(5))
+  })
+
+  it('keeps line breaks between the sentences of a chunk', () => {
+    const contents = 'Line one.\nLine two.\nLine three.'
+    const [chunk] = chunkResults([{ type: 'text', fileName: 'a.pdf', page: 1, contents }], { strategy: 'sentence' })
+    expect(chunk.contents).toBe(contents)
+  })
+
+  it('chunks csv results by rows and repeats the header', () => {
+    const csv = ['h1,h2', 'a,1', 'b,2', '"multi\nline",3'].join('\n')
+    const chunks = chunkResults([{ type: 'csv', fileName: 'a.xlsx', page: 1, contents: csv, sheetName: 'S' }], {
+      maxTokens: 2,
+      countTokens: countWords
+    })
+    expect(chunks.map((chunk) => chunk.contents)).toEqual(['h1,h2\na,1', 'h1,h2\nb,2', 'h1,h2\n"multi\nline",3'])
+    expect(chunks.every((chunk) => chunk.sheetName === 'S')).toBe(true)
+  })
+
+  it('starts a new chunk at headings with the heading strategy', () => {
+    const contents = '# One\n\nalpha\n\n# Two\n\nbeta'
+    const chunks = chunkResults([{ type: 'text', fileName: 'a.docx', page: 1, contents }], { strategy: 'heading' })
+    expect(chunks.map((chunk) => chunk.contents)).toEqual(['# One\n\nalpha', '# Two\n\nbeta'])
+  })
+
+  it('keeps entries of an archive apart by path', () => {
+    const chunks = chunkResults([
+      { type: 'text', fileName: 'a.txt', page: 1, contents: 'one', path: 'x.zip/a/a.txt' },
+      { type: 'text', fileName: 'a.txt', page: 1, contents: 'two', path: 'x.zip/b/a.txt' }
+    ])
+    expect(chunks.map((chunk) => [chunk.path, chunk.contents])).toEqual([
+      ['x.zip/a/a.txt', 'one'],
+      ['x.zip/b/a.txt', 'two']
+    ])
+  })
+
+  it('rejects a maxTokens or overlap out of range as INVALID_INPUT', () => {
+    const results = [{ type: 'text' as const, fileName: 'a.txt', page: 1, contents: 'one' }]
+    for (const options of [{ maxTokens: 0 }, { maxTokens: NaN }, { overlap: -1 }]) {
+      expect(() => DocSuite.chunk(results, options)).toThrow(DocSuiteError)
+      expect(() => DocSuite.chunk(results, options)).toThrow(expect.objectContaining({ code: 'INVALID_INPUT' }))
+    }
+  })
+})
@@ -0,0 +1,106 @@
+import { execFile } from 'child_process'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { promisify } from 'util'
+import * as XLSX from 'xlsx'
+import { main } from '../src/cli'
+import { docx, paragraph } from './fixtures'
+
+const execFileAsync = promisify(execFile)
+
+describe('docsuite CLI', () => {
+  let dir: string
+  let stdout: string
+  let stderr: string
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'docsuite-test-'))
+    await fs.mkdir(path.join(dir, 'docs', 'sheets'), { recursive: true })
+    await fs.writeFile(path.join(dir, 'docs', 'memo.docx'), docx(paragraph('Hello from the memo')))
+    const wb = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(
+      wb,
+      XLSX.utils.aoa_to_sheet([
+        ['a', 'b'],
+        [1, 2]
+      ]),
+      'Data'
+    )
+    await fs.writeFile(
+      path.join(dir, 'docs', 'sheets', 'data.xlsx'),
+      XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' })
+    )
+    await fs.writeFile(path.join(dir, 'docs', 'readme.txt'), 'not a document')
+
+    stdout = ''
+    stderr = ''
+    jest.spyOn(process.stdout, 'write').mockImplementation((chunk) => {
+      stdout += String(chunk)
+      return true
+    })
+    jest.spyOn(console, 'log').mockImplementation((...args) => {
+      stdout += args.join(' ') + '\n'
+    })
+    jest.spyOn(console, 'error').mockImplementation((...args) => {
+      stderr += args.join(' ') + '\n'
+    })
+  })
+
+  afterEach(async () => {
+    jest.restoreAllMocks()
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('extracts the supported documents of a directory as JSONL', async () => {
+    expect(await main([path.join(dir, 'docs'), '--format', 'jsonl'])).toBe(0)
+
+    const lines = stdout
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line))
+    expect(lines.map(({ file, type, contents }) => [path.relative(dir, file), type, contents])).toEqual([
+      [path.join('docs', 'memo.docx'), 'text', 'Hello from the memo'],
+      [path.join('docs', 'sheets', 'data.xlsx'), 'csv', 'a,b\n1,2']
+    ])
+    expect(stderr).toContain('2 documents, 2 succeeded, 0 failed')
+  })
+
+  it('writes one Markdown file per document to --out, mirroring the input tree', async () => {
+    const out = path.join(dir, 'out')
+    expect(await main([path.join(dir, 'docs'), '-f', 'markdown', '-o', out, '--include', '*.xlsx'])).toBe(0)
+
+    expect(await fs.readdir(out, { recursive: true })).toEqual(['sheets', path.join('sheets', 'data.xlsx.md')])
+    expect(await fs.readFile(path.join(out, 'sheets', 'data.xlsx.md'), 'utf8')).toBe(
+      '# sheets/data.xlsx\n\n## Data\n\n```csv\na,b\n1,2\n```\n'
+    )
+  })
+
+  it('extracts files named on the command line and skips excluded ones in directories', async () => {
+    const memo = path.join(dir, 'docs', 'memo.docx')
+    expect(await main([memo, path.join(dir, 'docs'), '--exclude', 'sheets', '--exclude', 'memo.docx'])).toBe(0)
+    expect(Object.keys(JSON.parse(stdout))).toEqual([memo])
+  })
+
+  it('exits with 1 when a document has an error result', async () => {
+    await fs.writeFile(path.join(dir, 'docs', 'broken.docx'), 'not a zip')
+    expect(await main([path.join(dir, 'docs')])).toBe(1)
+    expect(stderr).toContain('3 documents, 2 succeeded, 1 failed')
+    expect(stderr).toContain('broken.docx')
+  })
+
+  it('rejects invalid arguments', async () => {
+    const docs = path.join(dir, 'docs')
+    await expect(main([docs, '--format', 'xml'])).rejects.toThrow('--format must be one of json, jsonl, markdown')
+    await expect(main([docs, '--concurrency', '0'])).rejects.toThrow('--concurrency must be a positive integer')
+    await expect(main([docs, '--pages', '5-2'])).rejects.toThrow('--pages:')
+    await expect(main([path.join(dir, 'missing')])).rejects.toThrow('no such file or directory')
+    await expect(main([])).rejects.toThrow('no input files or directories')
+  })
+
+  it('exits with 2 on invalid arguments', async () => {
+    const cli = path.join(__dirname, '..', 'src', 'cli.ts')
+    const run = execFileAsync(process.execPath, ['-r', 'ts-node/register/transpile-only', cli, '--format', 'xml', dir])
+    await expect(run).rejects.toMatchObject({ code: 2, stderr: expect.stringContaining('docsuite --help') })
+  }, 30000)
+})
@@ -0,0 +1,156 @@
+import path from 'path'
+import { DocSuite, ExtractionOptions, ExtractionResult } from '../src'
+import * as zipModule from '../src/zip'
+import { zip } from './fixtures'
+
+describe('archives', () => {
+  let docsuite: DocSuite
+
+  beforeEach(() => {
+    docsuite = new DocSuite()
+    docsuite.registerExtractor('.note', async (filePath): Promise<ExtractionResult[]> => {
+      const { readFile } = await import('fs/promises')
+      return [{ type: 'text', fileName: path.basename(filePath), page: 1, contents: await readFile(filePath, 'utf8') }]
+    })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  const summary = (results: ExtractionResult[]) =>
+    results.map(({ path, code, contents, warnings }) => ({
+      path,
+      ...(code ? { code } : { contents }),
+      ...(warnings ? { warnings: warnings.map((warning) => warning.code) } : {})
+    }))
+
+  it('extracts nested archives with the location of every entry in path', async () => {
+    const inner = zip({ 'b.note': 'inner note' })
+    const results = await docsuite.extract(zip({ 'docs/a.note': 'outer note', 'inner.zip': inner }), {
+      fileName: 'bundle.zip'
+    })
+    expect(summary(results)).toEqual([
+      { path: 'bundle.zip/docs/a.note', contents: 'outer note' },
+      { path: 'bundle.zip/inner.zip/b.note', contents: 'inner note' }
+    ])
+  })
+
+  it('does not open archives nested deeper than maxDepth', async () => {
+    const results = await docsuite.extract(zip({ 'inner.zip': zip({ 'b.note': 'x' }) }), {
+      fileName: 'bundle.zip',
+      containers: { maxDepth: 1 }
+    })
+    expect(summary(results)).toEqual([{ path: 'bundle.zip/inner.zip', code: 'LIMIT_EXCEEDED' }])
+  })
+
+  it('rejects archives with more entries than maxEntries, counting nested entries', async () => {
+    const archive = zip({ 'a.note': 'a', 'inner.zip': zip({ 'b.note': 'b', 'c.note': 'c' }) })
+    expect(summary(await docsuite.extract(archive, { fileName: 'x.zip', containers: { maxEntries: 2 } }))).toEqual([
+      { path: 'x.zip/a.note', contents: 'a' },
+      { path: 'x.zip/inner.zip', code: 'LIMIT_EXCEEDED' }
+    ])
+    expect(summary(await docsuite.extract(archive, { fileName: 'x.zip', containers: { maxEntries: 1 } }))).toEqual([
+      { path: undefined, code: 'LIMIT_EXCEEDED' }
+    ])
+  })
+
+  it('checks the declared sizes against maxTotalSize before decompressing', async () => {
+    const readZipEntry = jest.spyOn(zipModule, 'readZipEntry')
+    const results = await docsuite.extract(zip({ 'big.note': 'x'.repeat(10_000) }), {
+      fileName: 'bomb.zip',
+      containers: { maxTotalSize: 1000 }
+    })
+    expect(summary(results)).toEqual([{ path: undefined, code: 'LIMIT_EXCEEDED' }])
+    expect(readZipEntry).not.toHaveBeenCalled()
+  })
+
+  it('skips entries without an extractor without decompressing or counting them', async () => {
+    const readZipEntry = jest.spyOn(zipModule, 'readZipEntry')
+    const results = await docsuite.extract(zip({ 'movie.mp4': Buffer.alloc(10_000), 'a.note': 'a' }), {
+      fileName: 'media.zip',
+      containers: { maxTotalSize: 1000 }
+    })
+    expect(summary(results)).toEqual([{ path: 'media.zip/a.note', contents: 'a', warnings: ['ENTRY_SKIPPED'] }])
+    expect(results[0].warnings?.[0].message).toContain('"movie.mp4" in "media.zip"')
+    expect(readZipEntry.mock.calls.map(([, entry]) => entry.name)).toEqual(['a.note'])
+  })
+
+  it('lists every skipped entry in one warning on a result for the archive when nothing was extracted', async () => {
+    const results = await docsuite.extract(zip({ 'readme.txt': 'hi', 'logo.gif': 'GIF89a' }), { fileName: 'misc.zip' })
+    expect(summary(results)).toEqual([{ path: 'misc.zip', contents: '', warnings: ['ENTRY_SKIPPED'] }])
+    expect(results[0].warnings?.[0].message).toContain('"readme.txt", "logo.gif"')
+  })
+
+  it('does not pass page selections or maxBytes on to the entries', async () => {
+    const seen: ExtractionOptions[] = []
+    docsuite.registerExtractor('.note', (filePath, options) => {
+      seen.push(options)
+      return [{ type: 'text', fileName: path.basename(filePath), page: 1, contents: 'x' }]
+    })
+    const archive = zip({ 'a.note': 'a'.repeat(100), 'b.note': 'b' })
+    const results = await docsuite.extract(archive, { fileName: 'x.zip', pages: '2', maxPages: 1, maxBytes: 1000 })
+
+    expect(summary(results)).toEqual([
+      { path: 'x.zip/a.note', contents: 'x' },
+      { path: 'x.zip/b.note', contents: 'x' }
+    ])
+    for (const options of seen) {
+      expect(options).not.toHaveProperty('pages')
+      expect(options).not.toHaveProperty('maxPages')
+      expect(options).not.toHaveProperty('maxBytes')
+    }
+  })
+
+  it('reports a corrupt archive', async () => {
+    const [result] = await docsuite.extract(Buffer.from('PK\u0003\u0004 not really a zip'), { fileName: 'bad.zip' })
+    expect(result.code).toBe('CORRUPT_FILE')
+  })
+})
+
+describe('emails', () => {
+  it('returns the headers and body, then the attachments', async () => {
+    const docsuite = new DocSuite()
+    docsuite.registerExtractor('.note', (filePath) => [
+      { type: 'text', fileName: path.basename(filePath), page: 1, contents: 'attached note' }
+    ])
+    const eml = [
+      'From: Ann <ann@example.com>',
+      'To: bob@example.com',
+      'Subject: =?utf-8?B?UXVhcnRlcmx5IHJlcG9ydA==?=',
+      'MIME-Version: 1.0',
+      'Content-Type: multipart/mixed; boundary="b1"',
+      '',
+      '--b1',
+      'Content-Type: text/html; charset=utf-8',
+      '',
+      '<p>Q3 &amp; Q4 &#x110000; &#99999999; &#xD800; &#65;</p>',
+      '--b1',
+      'Content-Type: application/octet-stream; name="q3.note"',
+      'Content-Disposition: attachment; filename="q3.note"',
+      'Content-Transfer-Encoding: base64',
+      '',
+      Buffer.from('note').toString('base64'),
+      '--b1',
+      'Content-Type: image/gif; name="logo.gif"',
+      'Content-Disposition: inline; filename="logo.gif"',
+      'Content-Transfer-Encoding: base64',
+      '',
+      Buffer.from('GIF89a').toString('base64'),
+      '--b1--',
+      ''
+    ].join('\r\n')
+
+    const results = await docsuite.extract(Buffer.from(eml), { fileName: 'mail.eml' })
+    expect(results.map((result) => [result.path, result.type])).toEqual([
+      ['mail.eml', 'text'],
+      ['mail.eml/q3.note', 'text']
+    ])
+    expect(results[0].contents).toContain('Subject: Quarterly report')
+    expect(results[0].contents).toContain('Q3 & Q4 \ufffd \ufffd \ufffd A')
+    expect(results[1].contents).toBe('attached note')
+    expect(results[0].warnings).toEqual([
+      expect.objectContaining({ code: 'ENTRY_SKIPPED', message: expect.stringContaining('"logo.gif"') })
+    ])
+  })
+})
@@ -0,0 +1,108 @@
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import * as XLSX from 'xlsx'
+import { DocSuite } from '../src'
+import { detectBufferFormat, detectFormat } from '../src/detect'
+import { docx, MINIMAL_PDF, paragraph, zip } from './fixtures'
+
+describe('detectFormat', () => {
+  let dir: string
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'docsuite-test-'))
+  })
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  async function detect(name: string, contents: string | Buffer): Promise<string | null> {
+    const filePath = path.join(dir, name)
+    await fs.writeFile(filePath, contents)
+    return detectFormat(filePath)
+  }
+
+  it('detects PDFs by their header, also after a few bytes of garbage', async () => {
+    expect(await detect('a.bin', MINIMAL_PDF)).toBe('.pdf')
+    expect(await detect('b.bin', `﻿\r\n${MINIMAL_PDF}`)).toBe('.pdf')
+  })
+
+  it('ignores a PDF header far from the start', async () => {
+    expect(await detect('c.bin', `${'x'.repeat(200)}${MINIMAL_PDF}`)).toBeNull()
+  })
+
+  it('does not take a zip with a stored PDF for a PDF', async () => {
+    expect(await detect('d.zip', zip({ 'report.pdf': MINIMAL_PDF }, { store: true }))).toBeNull()
+  })
+
+  it('detects OOXML packages by their main part', async () => {
+    const contentTypes =
+      '<Types><Override PartName="/word/document.xml" ' +
+      'ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>'
+    expect(await detect('e.zip', zip({ '[Content_Types].xml': contentTypes, 'word/document.xml': '<w/>' }))).toBe(
+      '.docx'
+    )
+    expect(await detect('f.zip', zip({ 'notes.txt': 'hello' }))).toBeNull()
+  })
+
+  it('detects OLE2 files by their streams', async () => {
+    const container = XLSX.CFB.utils.cfb_new()
+    XLSX.CFB.utils.cfb_add(container, 'WordDocument', Buffer.alloc(64))
+    expect(await detect('g.bin', XLSX.CFB.write(container, { type: 'buffer' }) as Buffer)).toBe('.doc')
+  })
+
+  it('detects documents already in memory the same way', async () => {
+    expect(await detectBufferFormat(Buffer.from(MINIMAL_PDF))).toBe('.pdf')
+    expect(await detectBufferFormat(zip({ 'report.pdf': MINIMAL_PDF }, { store: true }))).toBeNull()
+    expect(await detectBufferFormat(Buffer.from('plain text'))).toBeNull()
+  })
+
+  it('extracts a zip with a stored PDF as an archive', async () => {
+    const docsuite = new DocSuite()
+    docsuite.registerExtractor('.pdf', (filePath) => [
+      { type: 'text', fileName: path.basename(filePath), page: 1, contents: 'pdf text' }
+    ])
+    const results = await docsuite.extract(zip({ 'report.pdf': MINIMAL_PDF }, { store: true }), {
+      fileName: 'bundle.zip'
+    })
+    expect(results).toEqual([
+      expect.objectContaining({ type: 'text', contents: 'pdf text', path: 'bundle.zip/report.pdf' })
+    ])
+  })
+})
+
+describe('extract with a missing or wrong extension', () => {
+  const document = docx(paragraph('Hello'))
+
+  it('routes a file without an extension by its contents', async () => {
+    const [result] = await new DocSuite().extract(document, { fileName: 'upload' })
+    expect(result).toMatchObject({ type: 'text', fileName: 'upload', contents: 'Hello', detectedFormat: '.docx' })
+    expect(result.warnings).toBeUndefined()
+  })
+
+  it('trusts the contents over a wrong extension and warns about the mismatch', async () => {
+    const [result] = await new DocSuite().extract(document, { fileName: 'memo.pdf' })
+    expect(result).toMatchObject({
+      type: 'text',
+      contents: 'Hello',
+      detectedFormat: '.docx',
+      warnings: [
+        {
+          code: 'FORMAT_MISMATCH',
+          message: 'DocSuite: extension ".pdf" does not match the detected format ".docx"'
+        }
+      ]
+    })
+  })
+
+  it('keeps the extension of content it cannot recognize', async () => {
+    const [result] = await new DocSuite().extract(Buffer.from('plain text'), { fileName: 'notes.txt' })
+    expect(result).toMatchObject({
+      type: null,
+      code: 'UNSUPPORTED_FORMAT',
+      error: 'DocSuite: unsupported extension ".txt"'
+    })
+    expect(result.detectedFormat).toBeUndefined()
+  })
+})
@@ -0,0 +1,63 @@
+import { DocSuite, DocxBlock } from '../src'
+import { docx, paragraph } from './fixtures'
+
+const NUMBERING =
+  '<w:abstractNum w:abstractNumId="0">' +
+  '<w:lvl w:ilvl="0"><w:numFmt w:val="bullet"/></w:lvl><w:lvl w:ilvl="1"><w:numFmt w:val="decimal"/></w:lvl>' +
+  '</w:abstractNum><w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>'
+
+const cell = (text: string, properties = '') => `<w:tc><w:tcPr>${properties}</w:tcPr>${paragraph(text)}</w:tc>`
+
+describe('docx', () => {
+  const document = docx(
+    paragraph('Quarterly report', { style: 'Heading1' }) +
+      paragraph('Revenue grew.') +
+      paragraph('First point', { numId: 1 }) +
+      paragraph('Detail', { numId: 1, level: 1 }) +
+      paragraph('Second point', { numId: 1 }) +
+      '<w:tbl>' +
+      `<w:tr>${cell('Region', '<w:gridSpan w:val="2"/>')}${cell('Total')}</w:tr>` +
+      `<w:tr>${cell('North', '<w:vMerge w:val="restart"/>')}${cell('Q1')}${cell('10')}</w:tr>` +
+      `<w:tr>${cell('', '<w:vMerge/>')}${cell('Q2')}${cell('12')}</w:tr>` +
+      '</w:tbl>',
+    { numbering: NUMBERING }
+  )
+
+  it('reads headings, paragraphs, nested lists and tables into blocks', async () => {
+    const [text] = await new DocSuite().extract(document, { fileName: 'report.docx', docx: { format: 'blocks' } })
+    expect(text.blocks as DocxBlock[]).toEqual([
+      { type: 'heading', level: 1, text: 'Quarterly report' },
+      { type: 'paragraph', text: 'Revenue grew.' },
+      {
+        type: 'list',
+        items: [
+          {
+            text: 'First point',
+            ordered: false,
+            children: [{ text: 'Detail', ordered: true, children: [] }]
+          },
+          { text: 'Second point', ordered: false, children: [] }
+        ]
+      },
+      {
+        type: 'table',
+        index: 1,
+        rows: [
+          ['Region', '', 'Total'],
+          ['North', 'Q1', '10'],
+          ['', 'Q2', '12']
+        ]
+      }
+    ])
+  })
+
+  it('renders Markdown and returns each table as a csv result', async () => {
+    const results = await new DocSuite().extract(document, { fileName: 'report.docx', docx: { format: 'markdown' } })
+    expect(results.map((result) => result.type)).toEqual(['text', 'csv'])
+    expect(results[0].contents).toContain(
+      '# Quarterly report\n\nRevenue grew.\n\n- First point\n  1. Detail\n- Second point'
+    )
+    expect(results[0].contents).toContain('| Region |  | Total |')
+    expect(results[1].contents).toBe('Region,,Total\nNorth,Q1,10\n,Q2,12')
+  })
+})
@@ -0,0 +1,248 @@
+import { deflateRawSync } from 'zlib'
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  return c >>> 0
+})
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Build a zip archive in memory. Entries are deflated unless `store` is set.
+ */
+export function zip(entries: Record<string, string | Buffer>, { store = false } = {}): Buffer {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+  for (const [name, value] of Object.entries(entries)) {
+    const data = Buffer.from(value)
+    const compressed = store ? data : deflateRawSync(data)
+    const fileName = Buffer.from(name)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4)
+    local.writeUInt16LE(0x800, 6)
+    local.writeUInt16LE(store ? 0 : 8, 8)
+    local.writeUInt32LE(crc32(data), 14)
+    local.writeUInt32LE(compressed.length, 18)
+    local.writeUInt32LE(data.length, 22)
+    local.writeUInt16LE(fileName.length, 26)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4)
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(0x800, 8)
+    central.writeUInt16LE(store ? 0 : 8, 10)
+    central.writeUInt32LE(crc32(data), 16)
+    central.writeUInt32LE(compressed.length, 20)
+    central.writeUInt32LE(data.length, 24)
+    central.writeUInt16LE(fileName.length, 28)
+    central.writeUInt32LE(offset, 42)
+
+    locals.push(local, fileName, compressed)
+    centrals.push(central, fileName)
+    offset += local.length + fileName.length + compressed.length
+  }
+
+  const directory = Buffer.concat(centrals)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(Object.keys(entries).length, 8)
+  end.writeUInt16LE(Object.keys(entries).length, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+  return Buffer.concat([...locals, directory, end])
+}
+
+export const MINIMAL_PDF = '%PDF-1.4\n1 0 obj << /Type /Catalog >> endobj\n%%EOF\n'
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main'
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+
+/**
+ * Build a Word document from the XML of its body. `numbering` is the content of the numbering part,
+ * `parts` are added to the package as they are, e.g. `docProps/core.xml`.
+ */
+export function docx(
+  body: string,
+  { numbering, parts = {} }: { numbering?: string; parts?: Record<string, string> } = {}
+): Buffer {
+  const rels = numbering ? `<Relationship Id="rNum" Type="${R_NS}/numbering" Target="numbering.xml"/>` : ''
+  return zip({
+    '[Content_Types].xml':
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/word/document.xml" ' +
+      'ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>',
+    '_rels/.rels':
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      `<Relationship Id="rId1" Type="${R_NS}/officeDocument" Target="word/document.xml"/></Relationships>`,
+    'word/_rels/document.xml.rels': `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${rels}</Relationships>`,
+    'word/document.xml': `<w:document xmlns:w="${W_NS}" xmlns:r="${R_NS}"><w:body>${body}</w:body></w:document>`,
+    ...(numbering ? { 'word/numbering.xml': `<w:numbering xmlns:w="${W_NS}">${numbering}</w:numbering>` } : {}),
+    ...parts
+  })
+}
+
+/**
+ * Paragraph XML with an optional style and list numbering
+ */
+export function paragraph(
+  text: string,
+  { style, numId, level = 0 }: { style?: string; numId?: number; level?: number } = {}
+) {
+  const properties =
+    (style ? `<w:pStyle w:val="${style}"/>` : '') +
+    (numId !== undefined ? `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="${numId}"/></w:numPr>` : '')
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`
+}
+
+const CHAR_WIDTH = 5
+const LINE_HEIGHT = 10
+
+type Box = { xMin: number; yMin: number; xMax: number; yMax: number }
+
+const unionBox = (boxes: Box[]): Box => ({
+  xMin: Math.min(...boxes.map((box) => box.xMin)),
+  yMin: Math.min(...boxes.map((box) => box.yMin)),
+  xMax: Math.max(...boxes.map((box) => box.xMax)),
+  yMax: Math.max(...boxes.map((box) => box.yMax))
+})
+
+/**
+ * Line of `pdftotext -bbox-layout` words, 10 pt high at `y`. Each run of text starts at its `x`, with
+ * 5 pt per character and one character between words.
+ */
+export function line(y: number, ...runs: [x: number, text: string][]) {
+  const words = runs.flatMap(([x, text]) => {
+    let left = x
+    return text.split(' ').map((word) => {
+      const bbox = { xMin: left, yMin: y, xMax: left + word.length * CHAR_WIDTH, yMax: y + LINE_HEIGHT }
+      left = bbox.xMax + CHAR_WIDTH
+      return { text: word, bbox }
+    })
+  })
+  return { bbox: unionBox(words.map((word) => word.bbox)), words }
+}
+
+/**
+ * Block of lines from `line`
+ */
+export function block(...lines: ReturnType<typeof line>[]) {
+  return { bbox: unionBox(lines.map((l) => l.bbox)), lines }
+}
+
+/**
+ * Paragraph block with one line per string, starting at (x, y) with 12 pt line spacing
+ */
+export function textBlock(x: number, y: number, ...texts: string[]) {
+  return block(...texts.map((text, i) => line(y + i * 12, [x, text])))
+}
+
+/**
+ * Serialize pages of blocks as `pdftotext -bbox-layout` XHTML
+ */
+export function bboxLayout(pages: { width: number; height: number; blocks: ReturnType<typeof block>[] }[]): string {
+  const box = ({ xMin, yMin, xMax, yMax }: Box) => `xMin="${xMin}" yMin="${yMin}" xMax="${xMax}" yMax="${yMax}"`
+  const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;')
+  const body = pages
+    .map(
+      (page) =>
+        `<page width="${page.width}" height="${page.height}"><flow>` +
+        page.blocks
+          .map(
+            (b) =>
+              `<block ${box(b.bbox)}>` +
+              b.lines
+                .map(
+                  (l) =>
+                    `<line ${box(l.bbox)}>` +
+                    l.words.map((w) => `<word ${box(w.bbox)}>${escape(w.text)}</word>`).join('') +
+                    '</line>'
+                )
+                .join('') +
+              '</block>'
+          )
+          .join('') +
+        '</flow></page>'
+    )
+    .join('')
+  return `<!DOCTYPE html><html xmlns="http://www.w3.org/1999/xhtml"><body><doc>${body}</doc></body></html>`
+}
+
+const P_NS = 'http://schemas.openxmlformats.org/presentationml/2006/main'
+const A_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main'
+const PACKAGE_RELS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships'
+
+/**
+ * Shape XML with one paragraph per line of `text`, in a placeholder of the given type
+ */
+export function shape(text: string, placeholder?: string): string {
+  const ph =
+    placeholder === undefined ? '' : placeholder === 'body' ? '<p:ph idx="1"/>' : `<p:ph type="${placeholder}"/>`
+  const paragraphs = text
+    .split('\n')
+    .map((line) => `<a:p><a:r><a:t>${line}</a:t></a:r></a:p>`)
+    .join('')
+  return `<p:sp><p:nvSpPr><p:nvPr>${ph}</p:nvPr></p:nvSpPr><p:txBody>${paragraphs}</p:txBody></p:sp>`
+}
+
+/**
+ * Build a PowerPoint file. Slides are listed in the presentation in the given order, but stored
+ * in reverse so that part names and relationship order do not match it.
+ */
+export function pptx(slides: { shapes: string; notes?: string; image?: Buffer }[]): Buffer {
+  const rel = (id: string, type: string, target: string) =>
+    `<Relationship Id="${id}" Type="${R_NS}/${type}" Target="${target}"/>`
+  const rels = (items: string) => `<Relationships xmlns="${PACKAGE_RELS_NS}">${items}</Relationships>`
+  const parts: Record<string, string | Buffer> = {
+    '[Content_Types].xml':
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Override PartName="/ppt/presentation.xml" ' +
+      'ContentType="application/vnd.openxmlformats-officedocument.presentationml.presentation.main+xml"/></Types>',
+    '_rels/.rels': rels(rel('rId1', 'officeDocument', 'ppt/presentation.xml')),
+    'ppt/presentation.xml':
+      `<p:presentation xmlns:p="${P_NS}" xmlns:r="${R_NS}"><p:sldIdLst>` +
+      slides.map((_, i) => `<p:sldId id="${256 + i}" r:id="rIdSlide${i + 1}"/>`).join('') +
+      '</p:sldIdLst></p:presentation>',
+    'ppt/_rels/presentation.xml.rels': rels(
+      slides.map((_, i) => rel(`rIdSlide${i + 1}`, 'slide', `slides/slide${slides.length - i}.xml`)).join('')
+    )
+  }
+
+  slides.forEach((slide, i) => {
+    const name = `slide${slides.length - i}`
+    const picture = slide.image
+      ? `<p:pic><p:blipFill><a:blip r:embed="rIdImage"/></p:blipFill></p:pic>` +
+        `<p:pic><p:blipFill><a:blip r:embed="rIdImage"/></p:blipFill></p:pic>`
+      : ''
+    parts[`ppt/slides/${name}.xml`] =
+      `<p:sld xmlns:p="${P_NS}" xmlns:a="${A_NS}" xmlns:r="${R_NS}"><p:cSld><p:spTree>` +
+      `${slide.shapes}${picture}</p:spTree></p:cSld></p:sld>`
+    parts[`ppt/slides/_rels/${name}.xml.rels`] = rels(
+      (slide.notes ? rel('rIdNotes', 'notesSlide', `../notesSlides/notes${name}.xml`) : '') +
+        (slide.image ? rel('rIdImage', 'image', `../media/${name}.png`) : '')
+    )
+    if (slide.notes) {
+      parts[`ppt/notesSlides/notes${name}.xml`] =
+        `<p:notes xmlns:p="${P_NS}" xmlns:a="${A_NS}"><p:cSld><p:spTree>` +
+        `${shape('1', 'sldNum')}${shape(slide.notes, 'body')}</p:spTree></p:cSld></p:notes>`
+    }
+    if (slide.image) {
+      parts[`ppt/media/${name}.png`] = slide.image
+    }
+  })
+  return zip(parts)
+}
@@ -0,0 +1,65 @@
+import sharp from 'sharp'
+import { createImageDeduplicator, processImage } from '../src/images'
+
+describe('image processing', () => {
+  // Horizontal gradient, so resized and re-encoded copies still look alike
+  const gradient = (width: number, height: number) => {
+    const pixels = Buffer.alloc(width * height * 3)
+    for (let i = 0; i < width * height; i++) {
+      pixels.fill(Math.round(((i % width) / width) * 255), i * 3, i * 3 + 3)
+    }
+    return sharp(pixels, { raw: { width, height, channels: 3 } })
+  }
+
+  it('keeps images that need no change as they are, with their size', async () => {
+    const png = await gradient(40, 20).png().toBuffer()
+    expect(await processImage(png, 'image/png', {})).toEqual({
+      data: png,
+      mimeType: 'image/png',
+      width: 40,
+      height: 20
+    })
+  })
+
+  it('downscales to fit maxWidth and maxHeight and re-encodes to the requested format', async () => {
+    const png = await gradient(400, 200).png().toBuffer()
+    const result = await processImage(png, 'image/png', { maxWidth: 100, maxHeight: 100, format: 'jpeg', quality: 50 })
+    expect(result).toMatchObject({ mimeType: 'image/jpeg', width: 100, height: 50 })
+    expect(await sharp(result?.data).metadata()).toMatchObject({ format: 'jpeg', width: 100, height: 50 })
+
+    const webp = await processImage(png, 'image/png', { format: 'webp' })
+    expect(webp).toMatchObject({ mimeType: 'image/webp', width: 400, height: 200 })
+  })
+
+  it('drops embedded images below the minimum size or above maxBytes', async () => {
+    const bullet = await gradient(8, 8).png().toBuffer()
+    expect(await processImage(bullet, 'image/png', { minWidth: 16 })).toBeNull()
+    expect(await processImage(bullet, 'image/png', { minWidth: 16 }, false)).not.toBeNull()
+    expect(await processImage(bullet, 'image/png', { maxBytes: bullet.length - 1 })).toBeNull()
+  })
+
+  it('passes images it cannot decode through, subject to maxBytes', async () => {
+    const data = Buffer.from('not an image')
+    expect(await processImage(data, 'image/jp2', { format: 'png', minWidth: 100 })).toEqual({
+      data,
+      mimeType: 'image/jp2'
+    })
+    expect(await processImage(data, 'image/jp2', { maxBytes: 4 })).toBeNull()
+  })
+
+  it('recognizes repeated images by their bytes, or also by how they look', async () => {
+    const png = await gradient(64, 64).png().toBuffer()
+    const jpeg = await gradient(128, 128).jpeg({ quality: 60 }).toBuffer()
+    const inverted = await gradient(64, 64).negate().png().toBuffer()
+
+    const exact = createImageDeduplicator('exact')
+    expect(await exact(png)).toBe(false)
+    expect(await exact(Buffer.from(png))).toBe(true)
+    expect(await exact(jpeg)).toBe(false)
+
+    const perceptual = createImageDeduplicator('perceptual')
+    expect(await perceptual(png)).toBe(false)
+    expect(await perceptual(jpeg)).toBe(true)
+    expect(await perceptual(inverted)).toBe(false)
+  })
+})
@@ -0,0 +1,51 @@
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { DocSuite } from '../src'
+import { zip } from './fixtures'
+
+describe('image output to files', () => {
+  let dir: string
+  let docsuite: DocSuite
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'docsuite-test-'))
+    docsuite = new DocSuite()
+    // One image per document, with the document's contents as its bytes
+    docsuite.registerExtractor('.note', async (filePath) => [
+      {
+        type: 'image',
+        fileName: path.basename(filePath),
+        page: 1,
+        mimeType: 'image/png',
+        data: await fs.readFile(filePath)
+      }
+    ])
+  })
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('writes images of documents with the same name to different files', async () => {
+    const [first] = await docsuite.extract(Buffer.from('first'), { fileName: 'scan.note', imageOutput: { dir } })
+    const [second] = await docsuite.extract(Buffer.from('second'), { fileName: 'scan.note', imageOutput: { dir } })
+
+    expect(first.filePath).not.toBe(second.filePath)
+    expect(path.basename(first.filePath!)).toMatch(/^scan-p1-1-[0-9a-f]{12}\.png$/)
+    expect(await fs.readFile(first.filePath!, 'utf8')).toBe('first')
+    expect(await fs.readFile(second.filePath!, 'utf8')).toBe('second')
+  })
+
+  it('keeps images of archive entries with the same name apart', async () => {
+    const archive = zip({ 'a/scan.note': 'from a', 'b/scan.note': 'from b' })
+    const results = await docsuite.extract(archive, { fileName: 'bundle.zip', imageOutput: { dir } })
+
+    expect(results.map((result) => result.path)).toEqual(['bundle.zip/a/scan.note', 'bundle.zip/b/scan.note'])
+    expect(await Promise.all(results.map((result) => fs.readFile(result.filePath!, 'utf8')))).toEqual([
+      'from a',
+      'from b'
+    ])
+    expect(await fs.readdir(dir)).toHaveLength(2)
+  })
+})
@@ -0,0 +1,54 @@
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { Readable } from 'stream'
+import { DocSuite } from '../src'
+
+describe('input', () => {
+  let docsuite: DocSuite
+
+  beforeEach(() => {
+    docsuite = new DocSuite()
+    docsuite.registerExtractor('.note', async (filePath) => [
+      { type: 'text', fileName: path.basename(filePath), page: 1, contents: await fs.readFile(filePath, 'utf8') }
+    ])
+  })
+
+  it('extracts a file path, Buffer, Uint8Array and stream alike', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'docsuite-test-'))
+    try {
+      const filePath = path.join(dir, 'a.note')
+      await fs.writeFile(filePath, 'hello')
+      const inputs = [
+        docsuite.extract(filePath),
+        docsuite.extract(Buffer.from('hello'), { fileName: 'a.note' }),
+        docsuite.extract(new TextEncoder().encode('hello'), { fileName: 'a.note' }),
+        docsuite.extract(Readable.from([Buffer.from('hel'), Buffer.from('lo')]), { fileName: 'a.note' })
+      ]
+      for (const results of await Promise.all(inputs)) {
+        expect(results).toEqual([expect.objectContaining({ type: 'text', fileName: 'a.note', contents: 'hello' })])
+      }
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('names input given only an extension after the extension', async () => {
+    const results = await docsuite.extract(Buffer.from('hello'), { extension: 'note' })
+    expect(results).toEqual([expect.objectContaining({ fileName: 'document.note', contents: 'hello' })])
+  })
+
+  it('requires a fileName or extension for in-memory input', async () => {
+    const results = await docsuite.extract(Buffer.from('hello'))
+    expect(results).toEqual([expect.objectContaining({ type: null, fileName: 'unknown', code: 'INVALID_INPUT' })])
+  })
+
+  it('reports input over maxBytes under the name the caller gave', async () => {
+    const stream = Readable.from([Buffer.alloc(8), Buffer.alloc(8)])
+    const fromStream = await docsuite.extract(stream, { extension: '.note', maxBytes: 10 })
+    const fromBuffer = await docsuite.extract(Buffer.alloc(16), { fileName: 'in/box/a.note', maxBytes: 10 })
+
+    expect(fromStream).toEqual([expect.objectContaining({ fileName: 'document.note', code: 'INPUT_TOO_LARGE' })])
+    expect(fromBuffer).toEqual([expect.objectContaining({ fileName: 'a.note', code: 'INPUT_TOO_LARGE' })])
+  })
+})
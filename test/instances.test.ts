@@ -0,0 +1,60 @@
+import path from 'path'
+import { DocSuite, type ExtractorHandler } from '../src'
+
+describe('instances', () => {
+  const extractor =
+    (contents: string): ExtractorHandler =>
+    (filePath) => [{ type: 'text', fileName: path.basename(filePath), page: 1, contents }]
+
+  afterEach(() => {
+    DocSuite.unregisterExtractor('.note')
+    DocSuite.clearAllPostProcessors()
+  })
+
+  it('keeps extractors and post-processors per instance', async () => {
+    const first = new DocSuite()
+    const second = new DocSuite()
+    first.registerExtractor('.note', extractor('first'))
+    second.registerExtractor('.note', extractor('second'))
+    second.addPostProcessor('.note', 'upper', (results) =>
+      results.map((result) => ({ ...result, contents: result.contents?.toUpperCase() }))
+    )
+
+    const [a, b] = await Promise.all([
+      first.extract(Buffer.from('x'), { fileName: 'a.note' }),
+      second.extract(Buffer.from('x'), { fileName: 'b.note' })
+    ])
+    expect(a).toMatchObject([{ fileName: 'a.note', contents: 'first' }])
+    expect(b).toMatchObject([{ fileName: 'b.note', contents: 'SECOND' }])
+    expect(first.listPostProcessors('.note')).toEqual([])
+    expect(new DocSuite().listExtractors()).not.toContain('.note')
+  })
+
+  it('runs the static API on the shared default instance only', async () => {
+    DocSuite.registerExtractor('.note', extractor('default'))
+    DocSuite.addPostProcessor('*', 'tag', (results) =>
+      results.map((result) => ({ ...result, contents: `[${result.contents}]` }))
+    )
+
+    expect(DocSuite.defaultInstance).toBe(DocSuite.defaultInstance)
+    expect(DocSuite.defaultInstance.listExtractors()).toContain('.note')
+    expect(await DocSuite.extract(Buffer.from('x'), { fileName: 'a.note' })).toMatchObject([{ contents: '[default]' }])
+    expect(DocSuite.listPostProcessors('.note')).toEqual(['tag'])
+
+    const other = new DocSuite()
+    expect(other.listExtractors()).not.toContain('.note')
+    expect(other.listPostProcessors('.note')).toEqual([])
+  })
+
+  it('logs through the configured logger', async () => {
+    const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+    const docsuite = new DocSuite({ logger })
+    docsuite.registerExtractor('.note', extractor('x'))
+    docsuite.addPostProcessor('.note', 'broken', () => {
+      throw new Error('boom')
+    })
+
+    await docsuite.extract(Buffer.from('x'), { fileName: 'a.note' })
+    expect(logger.error).toHaveBeenCalledWith('Post-processor "broken" for .note failed: boom', expect.any(Error))
+  })
+})
@@ -0,0 +1,117 @@
+import * as XLSX from 'xlsx'
+import { DocSuite } from '../src'
+import { parsePdfInfo } from '../src/metadata'
+import { docx, paragraph, pptx, shape } from './fixtures'
+
+describe('metadata', () => {
+  it('parses pdfinfo output', () => {
+    const info = [
+      'Title:           Annual report',
+      'Author:          Finance',
+      'Creator:         Writer',
+      'Producer:        LibreOffice 7.6',
+      'Keywords:        ',
+      'CreationDate:    2024-03-01T10:00:00+01',
+      'ModDate:         not a date',
+      'Keywords:        ignored duplicate',
+      'Pages:           12',
+      'Encrypted:       yes (print:yes copy:no change:no addNotes:no)',
+      'Page size:       595.276 x 841.89 pts (A4)',
+      'PDF version:     1.7'
+    ].join('\n')
+    expect(parsePdfInfo(info)).toEqual({
+      format: '.pdf',
+      title: 'Annual report',
+      author: 'Finance',
+      creator: 'Writer',
+      producer: 'LibreOffice 7.6',
+      created: '2024-03-01T09:00:00.000Z',
+      pageCount: 12,
+      encrypted: true,
+      pageSize: { width: 595.276, height: 841.89 },
+      pdfVersion: '1.7'
+    })
+    expect(parsePdfInfo('Encrypted:       no\nPages:           1\n')).toEqual({
+      format: '.pdf',
+      pageCount: 1,
+      encrypted: false
+    })
+  })
+
+  it('reads the core and extended properties of a Word document', async () => {
+    const document = docx(paragraph('Hello'), {
+      parts: {
+        'docProps/core.xml':
+          '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+          'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/">' +
+          '<dc:title>Memo</dc:title><dc:creator>Ada</dc:creator><cp:keywords> </cp:keywords>' +
+          '<cp:lastModifiedBy>Grace</cp:lastModifiedBy>' +
+          '<dcterms:created>2024-01-02T03:04:05Z</dcterms:created></cp:coreProperties>',
+        'docProps/app.xml':
+          '<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties">' +
+          '<Application>Microsoft Office Word</Application><Company>Acme</Company>' +
+          '<Pages>3</Pages><Words>120</Words></Properties>'
+      }
+    })
+    expect(await new DocSuite().getMetadata(document, { fileName: 'memo.docx' })).toEqual({
+      format: '.docx',
+      title: 'Memo',
+      author: 'Ada',
+      lastModifiedBy: 'Grace',
+      creator: 'Microsoft Office Word',
+      company: 'Acme',
+      created: '2024-01-02T03:04:05.000Z',
+      pageCount: 3,
+      wordCount: 120
+    })
+  })
+
+  it('counts the sheets of a workbook and the slides of a presentation', async () => {
+    const wb = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([[1]]), 'One')
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([[2]]), 'Two')
+    wb.Props = { Title: 'Budget', Author: 'Finance' }
+    const workbook = XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' })
+    expect(await new DocSuite().getMetadata(workbook, { fileName: 'budget.xlsx' })).toMatchObject({
+      format: '.xlsx',
+      title: 'Budget',
+      author: 'Finance',
+      pageCount: 2
+    })
+
+    const deck = pptx([{ shapes: shape('One', 'title') }, { shapes: shape('Two', 'title') }])
+    expect(await new DocSuite().getMetadata(deck, { fileName: 'deck.pptx' })).toEqual({ format: '.pptx', pageCount: 2 })
+  })
+
+  it('reads the headers of an email', async () => {
+    const eml = [
+      'From: Ada <ada@example.com>',
+      'Subject: Quarterly report',
+      'Date: Tue, 2 Apr 2024 09:30:00 +0000',
+      'Content-Type: text/plain',
+      '',
+      'See attached.'
+    ].join('\r\n')
+    expect(await new DocSuite().getMetadata(Buffer.from(eml), { fileName: 'mail.eml' })).toEqual({
+      format: '.eml',
+      title: 'Quarterly report',
+      author: 'Ada <ada@example.com>',
+      created: '2024-04-02T09:30:00.000Z'
+    })
+  })
+
+  it('throws for buffers without a file name and for formats without properties', async () => {
+    await expect(new DocSuite().getMetadata(Buffer.from('x'))).rejects.toMatchObject({ code: 'INVALID_INPUT' })
+    await expect(new DocSuite().getMetadata(Buffer.from('plain text'), { fileName: 'a.txt' })).rejects.toMatchObject({
+      code: 'UNSUPPORTED_FORMAT'
+    })
+  })
+
+  it('returns the properties as a metadata result with the extracted text', async () => {
+    const deck = pptx([{ shapes: shape('One', 'title') }])
+    const results = await new DocSuite().extract(deck, { fileName: 'deck.pptx', metadata: true })
+    expect(results.filter((result) => result.type === 'metadata')).toMatchObject([
+      { fileName: 'deck.pptx', metadata: { format: '.pptx', pageCount: 1 } }
+    ])
+  })
+})
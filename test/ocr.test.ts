@@ -0,0 +1,25 @@
+import { resolveOcrEngine, tesseractEngine } from '../src/ocr'
+
+const recognize = jest.fn()
+jest.mock('tesseract.js', () => ({ recognize }), { virtual: true })
+
+describe('ocr', () => {
+  it('passes the image and language to tesseract.js and scales the confidence to 0..1', async () => {
+    recognize.mockResolvedValue({ data: { text: 'Invoice 42', confidence: 87 } })
+    const image = Buffer.from('png')
+
+    expect(await tesseractEngine(image, { language: 'deu', page: 3 })).toEqual({ text: 'Invoice 42', confidence: 0.87 })
+    expect(recognize).toHaveBeenCalledWith(image, 'deu')
+  })
+
+  it('treats missing text and confidence as an empty result', async () => {
+    recognize.mockResolvedValue({ data: {} })
+    expect(await tesseractEngine(Buffer.from('png'), { language: 'eng', page: 1 })).toEqual({ text: '', confidence: 0 })
+  })
+
+  it('resolves the engine name to tesseract.js and keeps custom engines', () => {
+    const custom = async () => ({ text: '', confidence: 1 })
+    expect(resolveOcrEngine('tesseract')).toBe(tesseractEngine)
+    expect(resolveOcrEngine(custom)).toBe(custom)
+  })
+})
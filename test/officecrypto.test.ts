@@ -0,0 +1,92 @@
+import fs from 'fs/promises'
+import officeCrypto from 'officecrypto-tool'
+import os from 'os'
+import path from 'path'
+import * as XLSX from 'xlsx'
+import { DocSuite } from '../src'
+import { decryptPackage, readEncryptedPackage } from '../src/officecrypto'
+
+function workbook(): Buffer {
+  const wb = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(
+    wb,
+    XLSX.utils.aoa_to_sheet([
+      ['Name', 'Salary'],
+      ['Ann', 100]
+    ]),
+    'Payroll'
+  )
+  wb.Props = { Title: 'Payroll' }
+  return XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' }) as Buffer
+}
+
+describe('password-protected Office files', () => {
+  let dir: string
+  const plain = workbook()
+  const samples = {
+    agile: officeCrypto.encrypt(plain, { password: 'secret' }),
+    standard: officeCrypto.encrypt(plain, { password: 'secret', type: 'standard' })
+  }
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'docsuite-test-'))
+  })
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  const write = async (name: string, data: Buffer) => {
+    const filePath = path.join(dir, name)
+    await fs.writeFile(filePath, data)
+    return filePath
+  }
+
+  describe.each(Object.entries(samples))('%s encryption', (scheme, encrypted) => {
+    it('decrypts the package with the right password only', async () => {
+      const streams = await readEncryptedPackage(await write(`${scheme}.xlsx`, encrypted))
+      expect(streams).not.toBeNull()
+      expect(decryptPackage(streams!, 'secret')).toEqual(plain)
+      expect(decryptPackage(streams!, 'wrong')).toBeNull()
+    })
+
+    it('extracts the workbook with the password', async () => {
+      const results = await new DocSuite().extract(encrypted, { fileName: 'payroll.xlsx', password: 'secret' })
+      expect(results).toEqual([
+        expect.objectContaining({
+          type: 'csv',
+          fileName: 'payroll.xlsx',
+          sheetName: 'Payroll',
+          contents: 'Name,Salary\nAnn,100'
+        })
+      ])
+    })
+  })
+
+  it('reports a missing or wrong password', async () => {
+    const docsuite = new DocSuite()
+    const [missing] = await docsuite.extract(samples.agile, { fileName: 'payroll.xlsx' })
+    const [wrong] = await docsuite.extract(samples.agile, { fileName: 'payroll.xlsx', password: 'wrong' })
+    expect(missing).toMatchObject({ type: null, code: 'ENCRYPTED' })
+    expect(wrong).toMatchObject({ type: null, code: 'INVALID_PASSWORD' })
+  })
+
+  it('decrypts workbooks passed to extractXlsx directly', async () => {
+    const filePath = await write('direct.xlsx', samples.agile)
+    const results = await new DocSuite().extractXlsx(filePath, {}, undefined, { password: 'secret' })
+    expect(results).toEqual([
+      expect.objectContaining({ type: 'csv', fileName: 'direct.xlsx', contents: 'Name,Salary\nAnn,100' })
+    ])
+    expect(await fs.readdir(dir)).not.toContainEqual(expect.stringMatching(/^docsuite-work-/))
+  })
+
+  it('marks the metadata of an encrypted file as encrypted', async () => {
+    const docsuite = new DocSuite()
+    const metadata = await docsuite.getMetadata(samples.agile, { fileName: 'payroll.xlsx', password: 'secret' })
+    expect(metadata).toMatchObject({ format: '.xlsx', title: 'Payroll', pageCount: 1, encrypted: true })
+    expect(await docsuite.getMetadata(plain, { fileName: 'payroll.xlsx' })).not.toHaveProperty('encrypted')
+    await expect(docsuite.getMetadata(samples.agile, { fileName: 'payroll.xlsx' })).rejects.toMatchObject({
+      code: 'ENCRYPTED'
+    })
+  })
+})
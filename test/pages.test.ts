@@ -0,0 +1,43 @@
+import * as XLSX from 'xlsx'
+import { DocSuite, DocSuiteError } from '../src'
+import { parsePageRanges, selectPages } from '../src/pages'
+
+describe('parsePageRanges', () => {
+  it('parses pages, ranges and open-ended ranges', () => {
+    expect(parsePageRanges('1-3, 5,8-', 10)).toEqual([1, 2, 3, 5, 8, 9, 10])
+    expect(parsePageRanges([3, 1, 3], 10)).toEqual([1, 3])
+  })
+
+  it('drops pages beyond the end of the document', () => {
+    expect(parsePageRanges('4-8,12', 5)).toEqual([4, 5])
+  })
+
+  it.each(['5-2', '0', 'a', '1,,2', '-3'])('rejects "%s" as INVALID_INPUT', (pages) => {
+    expect(() => parsePageRanges(pages, 10)).toThrow(DocSuiteError)
+    expect(() => parsePageRanges(pages, 10)).toThrow(expect.objectContaining({ code: 'INVALID_INPUT' }))
+  })
+
+  it('rejects invalid page numbers in a list', () => {
+    expect(() => parsePageRanges([1, 0], 10)).toThrow(expect.objectContaining({ code: 'INVALID_INPUT' }))
+    expect(() => parsePageRanges([1.5], 10)).toThrow(expect.objectContaining({ code: 'INVALID_INPUT' }))
+  })
+})
+
+describe('selectPages', () => {
+  it('applies the selection, the filter and maxPages in turn', () => {
+    expect(selectPages(10, { pages: '2-9', maxPages: 2 }, (page) => page % 2 === 1)).toEqual([3, 5])
+    expect(selectPages(3, {})).toEqual([1, 2, 3])
+  })
+})
+
+describe('extract with an invalid page selection', () => {
+  it('returns an INVALID_INPUT error result', async () => {
+    const workbook = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['a', 1]]), 'Sheet1')
+    const data: Buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' })
+
+    const [result] = await new DocSuite().extract(data, { fileName: 'book.xlsx', pages: '5-2' })
+    expect(result).toMatchObject({ type: null, code: 'INVALID_INPUT' })
+    expect((await new DocSuite().extract(data, { fileName: 'book.xlsx', pages: '1' }))[0].contents).toBe('a,1')
+  })
+})
@@ -0,0 +1,133 @@
+import fs from 'fs/promises'
+import { DocSuite, type OcrEngine } from '../src'
+import { MINIMAL_PDF } from './fixtures'
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Poppler stand-in for a three-page document. Text runs take 20 ms, and each call is recorded
+ * with the number of text runs in flight at that moment. Scanned pages have no text layer.
+ */
+const calls: { tool: string; pages: number[]; inFlight: number }[] = []
+const scannedPages = new Set<number>()
+let inFlight = 0
+
+class FakePoppler {
+  async pdfInfo() {
+    return 'Pages:          3\n'
+  }
+
+  async pdfToText(
+    _file: string,
+    _output: undefined,
+    options: { firstPageToConvert: number; lastPageToConvert: number }
+  ) {
+    const pages: number[] = []
+    for (let page = options.firstPageToConvert; page <= options.lastPageToConvert; page++) {
+      pages.push(page)
+    }
+    calls.push({ tool: 'pdftotext', pages, inFlight: ++inFlight })
+    await delay(20)
+    inFlight--
+    return pages.map((page) => (scannedPages.has(page) ? '\f' : `Text of page ${page}\f`)).join('')
+  }
+
+  async pdfImages(_file: string, _prefix: string, options: { firstPageToConvert: number }) {
+    calls.push({ tool: 'pdfimages', pages: [options.firstPageToConvert], inFlight })
+    return ''
+  }
+
+  async pdfToCairo(_file: string, outputPrefix: string, options: { firstPageToConvert: number; pngFile?: boolean }) {
+    calls.push({ tool: 'pdftocairo', pages: [options.firstPageToConvert], inFlight })
+    await fs.writeFile(
+      `${outputPrefix}.${options.pngFile ? 'png' : 'jpg'}`,
+      `render of page ${options.firstPageToConvert}`
+    )
+    return ''
+  }
+}
+
+// Read lazily: the mock factory runs before this module's classes are defined
+jest.mock('../src/poppler', () => ({
+  get AbortablePoppler() {
+    return FakePoppler
+  }
+}))
+jest.mock('child_process', () => ({ ...jest.requireActual('child_process'), execSync: () => Buffer.alloc(0) }))
+
+describe('pdf pages', () => {
+  const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+
+  beforeAll(async () => {
+    await new DocSuite({ logger }).checkDependencies()
+  })
+
+  beforeEach(() => {
+    calls.length = 0
+    scannedPages.clear()
+  })
+
+  const extract = (pdf: object, pages?: string) =>
+    new DocSuite({ logger }).extract(Buffer.from(MINIMAL_PDF), { fileName: 'a.pdf', pages, pdf })
+
+  it('reads the text of the selected pages with a single pdftotext run when no images are needed', async () => {
+    const results = await extract({ images: false }, '2-3')
+    expect(results.map((result) => [result.page, result.contents])).toEqual([
+      [2, 'Text of page 2'],
+      [3, 'Text of page 3']
+    ])
+    expect(calls).toEqual([{ tool: 'pdftotext', pages: [2, 3], inFlight: 1 }])
+  })
+
+  it('reads each page on its own when extracting images, one page at a time by default', async () => {
+    const results = await extract({})
+    expect(results.map((result) => result.page)).toEqual([1, 2, 3])
+    expect(calls.filter((call) => call.tool === 'pdfimages').map((call) => call.pages)).toEqual([[1], [2], [3]])
+    expect(Math.max(...calls.map((call) => call.inFlight))).toBe(1)
+  })
+
+  it('processes up to `concurrency` pages at once and returns them in page order', async () => {
+    const results = await extract({ concurrency: 2 })
+    expect(results.map((result) => [result.page, result.contents])).toEqual([
+      [1, 'Text of page 1'],
+      [2, 'Text of page 2'],
+      [3, 'Text of page 3']
+    ])
+    expect(Math.max(...calls.map((call) => call.inFlight))).toBe(2)
+  })
+
+  it('recognizes the text of scanned pages with the OCR engine', async () => {
+    scannedPages.add(2)
+    const engine = jest.fn<ReturnType<OcrEngine>, Parameters<OcrEngine>>(async (image) => ({
+      text: ` OCR of ${image.toString()} `,
+      confidence: 0.9
+    }))
+    const results = await extract({ images: false, ocr: { engine, language: 'deu', minTextLength: 5 } })
+
+    expect(results).toMatchObject([
+      { type: 'text', page: 1, contents: 'Text of page 1' },
+      { type: 'text', page: 2, contents: 'OCR of render of page 2', ocr: true, confidence: 0.9 },
+      { type: 'text', page: 3, contents: 'Text of page 3' }
+    ])
+    expect(results[0]).not.toHaveProperty('ocr')
+    expect(engine).toHaveBeenCalledTimes(1)
+    expect(engine).toHaveBeenCalledWith(Buffer.from('render of page 2'), { language: 'deu', page: 2 })
+  })
+
+  it('returns an OCR_FAILED error result for a page the engine fails on', async () => {
+    scannedPages.add(1)
+    const engine: OcrEngine = async () => {
+      throw new Error('no language data')
+    }
+    const results = await extract({ images: false, ocr: { engine } }, '1')
+    expect(results).toEqual([
+      expect.objectContaining({
+        type: null,
+        page: 1,
+        code: 'OCR_FAILED',
+        error: 'OCR failed for page 1: no language data'
+      })
+    ])
+    expect(logger.error).toHaveBeenCalledWith('OCR failed for page 1: no language data')
+  })
+})
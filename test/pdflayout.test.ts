@@ -0,0 +1,91 @@
+import { layoutText, markRunningBlocks, pageLayout, parseBboxLayout } from '../src/pdflayout'
+import { bboxLayout, textBlock } from './fixtures'
+
+const PAGE = { width: 600, height: 800 }
+
+describe('parseBboxLayout', () => {
+  it('reads pages, blocks, lines and words with their boxes', () => {
+    const [page] = parseBboxLayout(
+      bboxLayout([{ ...PAGE, blocks: [textBlock(50, 100, 'Fish & chips', 'served daily')] }])
+    )
+
+    expect(page.width).toBe(600)
+    expect(page.height).toBe(800)
+    expect(page.blocks).toHaveLength(1)
+    expect(page.blocks[0].bbox).toEqual({ xMin: 50, yMin: 100, xMax: 110, yMax: 122 })
+    expect(page.blocks[0].lines.map((line) => line.words.map((word) => word.text))).toEqual([
+      ['Fish', '&', 'chips'],
+      ['served', 'daily']
+    ])
+  })
+})
+
+describe('pageLayout', () => {
+  const texts = (xhtml: string, options = {}) =>
+    pageLayout(parseBboxLayout(xhtml)[0], options).blocks.map((block) => block.text)
+
+  it('reads two columns below a full-width title column by column', () => {
+    // Poppler lists the blocks row by row across the columns
+    const xhtml = bboxLayout([
+      {
+        ...PAGE,
+        blocks: [
+          textBlock(50, 50, 'A title that spans both of the columns below it in full width'),
+          textBlock(50, 100, 'Left one'),
+          textBlock(320, 100, 'Right one'),
+          textBlock(50, 150, 'Left two'),
+          textBlock(320, 150, 'Right two')
+        ]
+      }
+    ])
+    expect(texts(xhtml)).toEqual([
+      'A title that spans both of the columns below it in full width',
+      'Left one',
+      'Left two',
+      'Right one',
+      'Right two'
+    ])
+  })
+
+  it('reads stacked blocks top to bottom and falls back to position for overlapping blocks', () => {
+    const stacked = bboxLayout([{ ...PAGE, blocks: [textBlock(50, 300, 'Second'), textBlock(50, 100, 'First')] }])
+    expect(texts(stacked)).toEqual(['First', 'Second'])
+
+    const overlapping = bboxLayout([{ ...PAGE, blocks: [textBlock(60, 105, 'Later'), textBlock(50, 100, 'Earlier')] }])
+    expect(texts(overlapping)).toEqual(['Earlier', 'Later'])
+  })
+
+  it('joins lines with newlines and blocks with blank lines, with font sizes from the word heights', () => {
+    const layout = pageLayout(
+      parseBboxLayout(
+        bboxLayout([{ ...PAGE, blocks: [textBlock(50, 100, 'one', 'two'), textBlock(50, 200, 'three')] }])
+      )[0]
+    )
+    expect(layoutText(layout)).toBe('one\ntwo\n\nthree')
+    expect(layout.blocks[0].fontSize).toBe(10)
+  })
+})
+
+describe('markRunningBlocks', () => {
+  const page = (n: number) => ({
+    ...PAGE,
+    blocks: [textBlock(50, 20, 'Annual Report'), textBlock(50, 300, `Body of page ${n}`), textBlock(280, 770, `${n}`)]
+  })
+
+  it('marks text repeated near the top and bottom of the pages, ignoring numbers', () => {
+    const pages = parseBboxLayout(bboxLayout([page(1), page(2), page(3)]))
+    markRunningBlocks(pages)
+
+    expect(pages[1].blocks.map((block) => block.role)).toEqual(['header', undefined, 'footer'])
+    expect(pageLayout(pages[1], { stripHeadersFooters: true }).blocks.map((block) => block.text)).toEqual([
+      'Body of page 2'
+    ])
+    expect(pageLayout(pages[1]).blocks.map((block) => block.role)).toEqual(['header', undefined, 'footer'])
+  })
+
+  it('needs at least two pages', () => {
+    const pages = parseBboxLayout(bboxLayout([page(1)]))
+    markRunningBlocks(pages)
+    expect(pages[0].blocks.every((block) => block.role === undefined)).toBe(true)
+  })
+})
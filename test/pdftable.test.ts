@@ -0,0 +1,91 @@
+import { detectTables, withoutTables } from '../src/pdftable'
+import { block, line, textBlock } from './fixtures'
+
+const PAGE = { width: 600, height: 800 }
+
+// Columns at x = 50, 200 and 350; cells are far more than a line height apart
+const row = (y: number, ...cells: string[]) =>
+  line(y, ...cells.map((text, i): [number, string] => [50 + i * 150, text]))
+
+describe('detectTables', () => {
+  const statement = block(
+    row(100, 'Item', 'Q1', 'Q2'),
+    row(112, 'Revenue', '1,200', '1,350'),
+    line(124, [50, 'Costs']),
+    row(136, 'Staff', '400', '420'),
+    row(148, 'Rent', '100', '100')
+  )
+
+  it('finds rows of cells that line up in columns, keeping section labels inside one column', () => {
+    const tables = detectTables({ ...PAGE, blocks: [statement] })
+
+    expect(tables).toHaveLength(1)
+    expect(tables[0].rows).toEqual([
+      ['Item', 'Q1', 'Q2'],
+      ['Revenue', '1,200', '1,350'],
+      ['Costs', '', ''],
+      ['Staff', '400', '420'],
+      ['Rent', '100', '100']
+    ])
+    expect(tables[0].bbox).toEqual({ xMin: 50, yMin: 100, xMax: 375, yMax: 158 })
+  })
+
+  it('leaves out titles and notes before and after the table', () => {
+    const page = {
+      ...PAGE,
+      blocks: [block(line(88, [50, 'Quarterly figures']), ...statement.lines, line(160, [50, 'Unaudited']))]
+    }
+    const [table] = detectTables(page)
+    expect(table.rows[0]).toEqual(['Item', 'Q1', 'Q2'])
+    expect(table.rows).toHaveLength(5)
+  })
+
+  it('needs minRows rows and minColumns columns', () => {
+    const page = { ...PAGE, blocks: [statement] }
+    expect(detectTables(page, { minRows: 5 })).toEqual([])
+    expect(detectTables(page, { minColumns: 4 })).toEqual([])
+  })
+
+  it('does not take columns of prose for a table', () => {
+    const prose = block(
+      ...[100, 112, 124, 136].map((y) =>
+        line(y, [50, 'words of the left column run on'], [320, 'and so do the words on the right'])
+      )
+    )
+    expect(detectTables({ ...PAGE, blocks: [prose] })).toEqual([])
+  })
+
+  it('splits tables at a line of prose across the columns and ignores running headers', () => {
+    const header = { ...textBlock(50, 20, 'Report'), role: 'header' as const }
+    const page = {
+      ...PAGE,
+      blocks: [
+        header,
+        block(
+          row(100, 'a', '1', '2'),
+          row(112, 'b', '3', '4'),
+          row(124, 'c', '5', '6'),
+          line(136, [50, 'This sentence runs across every column of the page']),
+          row(148, 'd', '7', '8'),
+          row(160, 'e', '9', '10'),
+          row(172, 'f', '11', '12')
+        )
+      ]
+    }
+    expect(detectTables(page).map((table) => table.rows.map((cells) => cells[0]))).toEqual([
+      ['a', 'b', 'c'],
+      ['d', 'e', 'f']
+    ])
+  })
+})
+
+describe('withoutTables', () => {
+  it('removes the lines of the tables and drops blocks left empty', () => {
+    const intro = textBlock(50, 50, 'Introduction')
+    const table = block(row(100, 'a', '1'), row(112, 'b', '2'), row(124, 'c', '3'))
+    const page = { ...PAGE, blocks: [intro, table] }
+
+    const rest = withoutTables(page, detectTables(page))
+    expect(rest.blocks).toEqual([intro])
+  })
+})
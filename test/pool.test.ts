@@ -0,0 +1,79 @@
+import { mapWithConcurrency } from '../src/pool'
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+describe('mapWithConcurrency', () => {
+  it('yields results in input order with a bounded number of calls in flight', async () => {
+    let running = 0
+    let maxRunning = 0
+    const results: number[] = []
+    for await (const result of mapWithConcurrency([30, 10, 20, 5], 2, async (ms) => {
+      running++
+      maxRunning = Math.max(maxRunning, running)
+      await delay(ms)
+      running--
+      return ms
+    })) {
+      results.push(result)
+    }
+    expect(results).toEqual([30, 10, 20, 5])
+    expect(maxRunning).toBe(2)
+  })
+
+  it('aborts and awaits the calls in flight when the consumer stops early', async () => {
+    const settled: number[] = []
+    const aborted: number[] = []
+    const calls = mapWithConcurrency([0, 1, 2, 3, 4], 3, async (item, _index, signal) => {
+      if (item > 0) {
+        await new Promise((resolve) => signal.addEventListener('abort', resolve, { once: true }))
+        aborted.push(item)
+        await delay(10)
+      }
+      settled.push(item)
+      return item
+    })
+
+    for await (const item of calls) {
+      expect(item).toBe(0)
+      break
+    }
+    // The generator has finished only after the aborted calls settled
+    expect(aborted.sort()).toEqual([1, 2, 3])
+    expect(settled.sort()).toEqual([0, 1, 2, 3])
+  })
+
+  it('passes an abort of the outer signal on to the calls', async () => {
+    const outer = new AbortController()
+    const calls = mapWithConcurrency(
+      [1],
+      1,
+      (_item, _index, signal) =>
+        new Promise<number>((_resolve, reject) => signal.addEventListener('abort', () => reject(signal.reason))),
+      outer.signal
+    )
+    const next = calls.next()
+    outer.abort(new Error('stop'))
+    await expect(next).rejects.toThrow('stop')
+  })
+
+  it('stops starting calls after one rejects', async () => {
+    const started: number[] = []
+    const calls = mapWithConcurrency([1, 2, 3, 4], 1, async (item) => {
+      started.push(item)
+      if (item === 2) {
+        throw new Error('failed')
+      }
+      return item
+    })
+    const results: number[] = []
+    await expect(
+      (async () => {
+        for await (const result of calls) {
+          results.push(result)
+        }
+      })()
+    ).rejects.toThrow('failed')
+    expect(results).toEqual([1])
+    expect(started).toEqual([1, 2])
+  })
+})
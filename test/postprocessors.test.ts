@@ -0,0 +1,131 @@
+import path from 'path'
+import { DocSuite, DocSuiteError, type ExtractionOptions, type ExtractionResult } from '../src'
+
+describe('post-processors', () => {
+  let docsuite: DocSuite
+
+  beforeEach(() => {
+    const silent = () => {}
+    docsuite = new DocSuite({ logger: { info: silent, warn: silent, error: silent } })
+    docsuite.registerExtractor('.note', (filePath) => [
+      { type: 'text', fileName: path.basename(filePath), page: 1, contents: 'hello' }
+    ])
+    docsuite.addPostProcessor('.note', 'upper', (results) =>
+      results.map((result) => ({ ...result, contents: result.contents?.toUpperCase() }))
+    )
+    docsuite.addPostProcessor('.note', 'broken', () => {
+      throw new Error('boom')
+    })
+  })
+
+  it('skips a failing stage and reports it as an error result and a warning', async () => {
+    const results = await docsuite.extract(Buffer.from('x'), { fileName: 'a.note' })
+    expect(results).toEqual([
+      expect.objectContaining({
+        type: 'text',
+        contents: 'HELLO',
+        warnings: [expect.objectContaining({ code: 'POSTPROCESSOR_FAILED', stage: 'broken' })]
+      }),
+      expect.objectContaining({ type: null, fileName: 'a.note', page: 1, code: 'POSTPROCESSOR_FAILED' })
+    ])
+    expect(results[1].error).toContain('"broken"')
+  })
+
+  it('throws with throwOnError', async () => {
+    const extraction = docsuite.extract(Buffer.from('x'), { fileName: 'a.note', throwOnError: true })
+    await expect(extraction).rejects.toBeInstanceOf(DocSuiteError)
+    await expect(extraction).rejects.toMatchObject({ code: 'POSTPROCESSOR_FAILED', fileName: 'a.note' })
+  })
+
+  it('reports failures per batch when streaming', async () => {
+    const results = []
+    for await (const result of docsuite.extractStream(Buffer.from('x'), { fileName: 'a.note' })) {
+      results.push(result)
+    }
+    expect(results.map((result) => result.code)).toEqual([undefined, 'POSTPROCESSOR_FAILED'])
+  })
+})
+
+describe('post-processor chains', () => {
+  let docsuite: DocSuite
+
+  // Stage that appends its name to the contents, to record the order the chain ran in
+  const tag = (name: string) => (results: ExtractionResult[]) =>
+    results.map((result) => ({ ...result, contents: `${result.contents} ${name}` }))
+
+  beforeEach(() => {
+    docsuite = new DocSuite()
+    docsuite.registerExtractor(['.note', '.memo'], (filePath) => [
+      { type: 'text', fileName: path.basename(filePath), page: 1, contents: 'x' }
+    ])
+  })
+
+  const contents = async (fileName: string, options: ExtractionOptions = {}) =>
+    (await docsuite.extract(Buffer.from('x'), { fileName, ...options }))[0].contents
+
+  it('runs wildcard stages, then format stages, each in the order they were added', async () => {
+    docsuite.addPostProcessor('.note', 'a', tag('a'))
+    docsuite.addPostProcessor('*', 'all', tag('all'))
+    docsuite.addPostProcessor(['note', '.MEMO'], 'b', tag('b'))
+
+    expect(docsuite.listPostProcessors('.note')).toEqual(['all', 'a', 'b'])
+    expect(await contents('a.note')).toBe('x all a b')
+    expect(await contents('a.memo')).toBe('x all b')
+    expect(docsuite.listPostProcessors('*')).toEqual(['all'])
+  })
+
+  it('orders stages by their order option and replaces a stage added under the same name', async () => {
+    docsuite.addPostProcessor('.note', 'late', tag('late'), { order: 10 })
+    docsuite.addPostProcessor('.note', 'early', tag('early'), { order: -1 })
+    docsuite.addPostProcessor('.note', 'mid', tag('mid'))
+    docsuite.addPostProcessor('.note', 'mid', tag('MID'))
+    expect(await contents('a.note')).toBe('x early MID late')
+  })
+
+  it('keeps a single default stage for setPostProcessor, called with its context', async () => {
+    docsuite.setPostProcessor('.note', tag('first'))
+    docsuite.setPostProcessor('.note', {
+      context: { suffix: '!' },
+      handler(this: { suffix: string }, results) {
+        return results.map((result) => ({ ...result, contents: result.contents + this.suffix }))
+      }
+    })
+    expect(docsuite.listPostProcessors('.note')).toEqual(['default'])
+    expect(await contents('a.note')).toBe('x!')
+  })
+
+  it('adds and skips stages for a single call', async () => {
+    docsuite.addPostProcessor('*', 'all', tag('all'))
+    docsuite.addPostProcessor('.note', 'a', tag('a'))
+
+    const postProcessors = { skip: ['all'], add: [{ name: 'extra', handler: tag('extra'), order: -1 }] }
+    expect(await contents('a.note', { postProcessors })).toBe('x extra a')
+    expect(await contents('a.note')).toBe('x all a')
+  })
+
+  it('tells stages whether they see the whole document or one streamed batch', async () => {
+    const modes: (string | undefined)[] = []
+    docsuite.addPostProcessor('.note', 'mode', (results, info) => {
+      modes.push(info?.mode)
+      return results
+    })
+    await docsuite.extract(Buffer.from('x'), { fileName: 'a.note' })
+    for await (const _ of docsuite.extractStream(Buffer.from('x'), { fileName: 'a.note' })) {
+      // Drain the stream
+    }
+    expect(modes).toEqual(['document', 'page'])
+  })
+
+  it('removes stages and clears chains', async () => {
+    docsuite.addPostProcessor('*', 'all', tag('all'))
+    docsuite.addPostProcessor('.note', 'a', tag('a'))
+    docsuite.addPostProcessor('.note', 'b', tag('b'))
+
+    docsuite.removePostProcessor('.note', 'a')
+    expect(docsuite.listPostProcessors('.note')).toEqual(['all', 'b'])
+    docsuite.clearPostProcessor('*')
+    expect(docsuite.listPostProcessors('.note')).toEqual(['b'])
+    docsuite.clearAllPostProcessors()
+    expect(await contents('a.note')).toBe('x')
+  })
+})
@@ -0,0 +1,52 @@
+import { DocSuite } from '../src'
+import { pptx, shape } from './fixtures'
+
+describe('pptx', () => {
+  const table =
+    '<p:graphicFrame><a:graphic><a:graphicData><a:tbl>' +
+    '<a:tr><a:tc><a:txBody><a:p><a:r><a:t>Region</a:t></a:r></a:p></a:txBody></a:tc>' +
+    '<a:tc><a:txBody><a:p><a:r><a:t>Sales</a:t></a:r></a:p></a:txBody></a:tc></a:tr>' +
+    '<a:tr><a:tc><a:txBody><a:p><a:r><a:t>North, East</a:t></a:r></a:p></a:txBody></a:tc>' +
+    '<a:tc><a:txBody><a:p><a:r><a:t>10</a:t></a:r></a:p></a:txBody></a:tc></a:tr>' +
+    '</a:tbl></a:graphicData></a:graphic></p:graphicFrame>'
+
+  const deck = pptx([
+    {
+      shapes: shape('Kick-off', 'ctrTitle') + shape('Goals &amp; scope\nTimeline', 'body') + shape('3', 'sldNum'),
+      notes: 'Welcome everyone'
+    },
+    { shapes: shape('Numbers', 'title') + table, image: Buffer.from('png bytes') }
+  ])
+
+  it('returns the slides in presentation order with titles, body text, tables and notes', async () => {
+    const results = await new DocSuite().extract(deck, { fileName: 'deck.pptx' })
+    expect(results).toMatchObject([
+      { type: 'text', fileName: 'deck.pptx', page: 1, title: 'Kick-off', contents: 'Goals & scope\nTimeline' },
+      { type: 'text', fileName: 'deck.pptx', page: 1, contents: 'Welcome everyone', isNotes: true },
+      { type: 'text', fileName: 'deck.pptx', page: 2, title: 'Numbers', contents: '' },
+      { type: 'csv', fileName: 'deck.pptx', page: 2, index: 1, contents: 'Region,Sales\n"North, East",10' }
+    ])
+  })
+
+  it('returns each picture once as an image result and can leave out the notes', async () => {
+    const results = await new DocSuite().extract(deck, {
+      fileName: 'deck.pptx',
+      pptx: { images: true, notes: false },
+      imageOutput: 'buffer'
+    })
+    expect(results.filter((result) => result.isNotes)).toEqual([])
+    expect(results.filter((result) => result.type === 'image')).toEqual([
+      expect.objectContaining({ page: 2, index: 1, mimeType: 'image/png', data: Buffer.from('png bytes') })
+    ])
+  })
+
+  it('selects slides with pages', async () => {
+    const results = await new DocSuite().extract(deck, { fileName: 'deck.pptx', pages: '2' })
+    expect(new Set(results.map((result) => result.page))).toEqual(new Set([2]))
+  })
+
+  it('reports a truncated package as corrupt instead of hanging', async () => {
+    const [result] = await new DocSuite().extract(pptx([]).subarray(0, 40), { fileName: 'deck.pptx' })
+    expect(result).toMatchObject({ type: null, code: 'CORRUPT_FILE' })
+  })
+})
@@ -0,0 +1,91 @@
+import path from 'path'
+import * as XLSX from 'xlsx'
+import { DocSuite, type ProgressEvent } from '../src'
+import { pptx, shape } from './fixtures'
+
+describe('progress events', () => {
+  const workbook = () => {
+    const wb = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([['a']]), 'One')
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([['b']]), 'Two')
+    return XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' })
+  }
+
+  it('reports the start and end of the document and of each sheet', async () => {
+    const events: ProgressEvent[] = []
+    await new DocSuite().extract(workbook(), { fileName: 'book.xlsx', progressCallback: (event) => events.push(event) })
+
+    expect(events).toEqual([
+      { type: 'started', data: { fileName: 'book.xlsx' } },
+      { type: 'page_started', data: { fileName: 'book.xlsx', page: 1, totalPages: 2 } },
+      {
+        type: 'page_completed',
+        data: expect.objectContaining({ fileName: 'book.xlsx', page: 1, totalPages: 2, resultCount: 1, errorCount: 0 })
+      },
+      { type: 'page_started', data: { fileName: 'book.xlsx', page: 2, totalPages: 2 } },
+      { type: 'page_completed', data: expect.objectContaining({ page: 2, resultCount: 1 }) },
+      {
+        type: 'finished',
+        data: expect.objectContaining({
+          fileName: 'book.xlsx',
+          resultCount: 2,
+          errorCount: 0,
+          results: expect.any(Array)
+        })
+      }
+    ])
+  })
+
+  it('reports each picture of a slide and each distinct warning', async () => {
+    const deck = pptx([{ shapes: shape('Title', 'title'), image: Buffer.from('png') }])
+    const events: ProgressEvent[] = []
+    // The name does not match the contents, so every result carries the same FORMAT_MISMATCH warning
+    await new DocSuite().extract(deck, {
+      fileName: 'deck.pdf',
+      pptx: { images: true },
+      progressCallback: (event) => events.push(event)
+    })
+
+    expect(events.filter((event) => event.type === 'image_extracted')).toEqual([
+      { type: 'image_extracted', data: { fileName: 'deck.pdf', page: 1, index: 1 } }
+    ])
+    expect(events.filter((event) => event.type === 'warning')).toEqual([
+      { type: 'warning', data: { fileName: 'deck.pdf', warning: expect.objectContaining({ code: 'FORMAT_MISMATCH' }) } }
+    ])
+  })
+
+  it('iterates the events of an extraction, ending with the results', async () => {
+    const types: string[] = []
+    let last: ProgressEvent | undefined
+    for await (const event of new DocSuite().extractEvents(workbook(), { fileName: 'book.xlsx' })) {
+      types.push(event.type)
+      last = event
+    }
+    expect(types).toEqual(['started', 'page_started', 'page_completed', 'page_started', 'page_completed', 'finished'])
+    expect(last?.type === 'finished' && last.data.results?.map((result) => result.contents)).toEqual(['a', 'b'])
+  })
+
+  it('throws the error of the extraction from the iterator', async () => {
+    const docsuite = new DocSuite()
+    docsuite.registerExtractor('.note', (filePath) => [
+      { type: null, fileName: path.basename(filePath), page: 1, code: 'CORRUPT_FILE', error: 'broken' }
+    ])
+    const events = docsuite.extractEvents(Buffer.from('x'), { fileName: 'a.note', throwOnError: true })
+    await expect(events.next()).resolves.toMatchObject({ value: { type: 'started' } })
+    await expect(events.next()).rejects.toMatchObject({ code: 'CORRUPT_FILE' })
+  })
+
+  it('leaves the results out of the finished event of a stream', async () => {
+    const events: ProgressEvent[] = []
+    for await (const _ of new DocSuite().extractStream(workbook(), {
+      fileName: 'book.xlsx',
+      progressCallback: (event) => events.push(event)
+    })) {
+      // Drain the stream
+    }
+    expect(events[events.length - 1]).toEqual({
+      type: 'finished',
+      data: { fileName: 'book.xlsx', durationMs: expect.any(Number), resultCount: 2, errorCount: 0 }
+    })
+  })
+})
@@ -0,0 +1,62 @@
+import path from 'path'
+import { DocSuite, type ExtractorHandler } from '../src'
+import { docx, paragraph } from './fixtures'
+
+describe('extractor registry', () => {
+  const note: ExtractorHandler = (filePath, options) => [
+    { type: 'text', fileName: path.basename(filePath), page: 1, contents: `note ${options.pages ?? 'all'}` }
+  ]
+
+  it('routes by extension, case-insensitively and with or without the leading dot', async () => {
+    const docsuite = new DocSuite()
+    docsuite.registerExtractor(['note', '.MEMO'], note)
+    expect(docsuite.listExtractors()).toEqual(expect.arrayContaining(['.memo', '.note', '.pdf', '.docx']))
+
+    expect(await docsuite.extract(Buffer.from('x'), { fileName: 'a.NOTE', pages: '2' })).toMatchObject([
+      { type: 'text', fileName: 'a.NOTE', contents: 'note 2' }
+    ])
+    expect(await docsuite.extract(Buffer.from('x'), { fileName: 'b.memo' })).toMatchObject([{ contents: 'note all' }])
+  })
+
+  it('falls back to an extractor registered for the MIME type', async () => {
+    const docsuite = new DocSuite()
+    docsuite.registerExtractor('Text/HTML', note)
+    expect(docsuite.listExtractors()).toContain('text/html')
+
+    const options = { fileName: 'page.htm', mimeType: 'text/html' }
+    expect(await docsuite.extract(Buffer.from('<p>x</p>'), options)).toMatchObject([{ contents: 'note all' }])
+
+    // An extractor for the extension wins over the MIME type
+    docsuite.registerExtractor('.htm', () => [
+      { type: 'text', fileName: 'page.htm', page: 1, contents: 'by extension' }
+    ])
+    expect(await docsuite.extract(Buffer.from('<p>x</p>'), options)).toMatchObject([{ contents: 'by extension' }])
+  })
+
+  it('streams the results of an extractor that returns an async iterable', async () => {
+    const docsuite = new DocSuite()
+    docsuite.registerExtractor('.note', async function* (filePath) {
+      for (const page of [1, 2]) {
+        yield [{ type: 'text' as const, fileName: path.basename(filePath), page, contents: `page ${page}` }]
+      }
+    })
+    const contents = []
+    for await (const result of docsuite.extractStream(Buffer.from('x'), { fileName: 'a.note' })) {
+      contents.push(result.contents)
+    }
+    expect(contents).toEqual(['page 1', 'page 2'])
+  })
+
+  it('replaces and removes built-in extractors', async () => {
+    const docsuite = new DocSuite()
+    const document = docx(paragraph('Hello'))
+    docsuite.registerExtractor('.docx', note)
+    expect(await docsuite.extract(document, { fileName: 'a.docx' })).toMatchObject([{ contents: 'note all' }])
+
+    docsuite.unregisterExtractor('docx')
+    expect(docsuite.listExtractors()).not.toContain('.docx')
+    expect(await docsuite.extract(document, { fileName: 'a.docx' })).toMatchObject([
+      { type: null, code: 'UNSUPPORTED_FORMAT', error: 'DocSuite: unsupported extension ".docx"' }
+    ])
+  })
+})
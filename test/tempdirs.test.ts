@@ -0,0 +1,57 @@
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { DocSuite } from '../src'
+
+describe('temp directories', () => {
+  let root: string
+  let docsuite: DocSuite
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'docsuite-test-'))
+    docsuite = new DocSuite({ tmpDir: root })
+    docsuite.registerExtractor('.note', async (filePath) => [
+      { type: 'text', fileName: path.basename(filePath), page: 1, contents: await fs.readFile(filePath, 'utf8') }
+    ])
+  })
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  const makeDir = async (name: string, files: string[]) => {
+    const dir = path.join(root, name)
+    await fs.mkdir(dir)
+    for (const file of files) {
+      await fs.writeFile(path.join(dir, file), '')
+    }
+    const twoDaysAgo = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000)
+    await fs.utimes(dir, twoDaysAgo, twoDaysAgo)
+  }
+
+  it('removes the per-call directory when the call finishes', async () => {
+    const results = await docsuite.extract(Buffer.from('hello'), { fileName: 'a.note' })
+    expect(results[0].contents).toBe('hello')
+    expect(await fs.readdir(root)).toEqual([])
+  })
+
+  it('sweeps only stale directories that DocSuite marked as its own', async () => {
+    await makeDir('docsuite-work-crashed', ['.docsuite-work-dir', 'input.pdf'])
+    await makeDir('docsuite-work-foreign', ['data.bin'])
+    await makeDir('docsuite-cache', ['entry'])
+
+    await docsuite.extract(Buffer.from('hello'), { fileName: 'a.note' })
+
+    expect((await fs.readdir(root)).sort()).toEqual(['docsuite-cache', 'docsuite-work-foreign'])
+  })
+
+  it('keeps marked directories newer than staleTempAge', async () => {
+    await makeDir('docsuite-work-recent', ['.docsuite-work-dir'])
+    const recent = new DocSuite({ tmpDir: root, staleTempAge: 7 * 24 * 60 * 60 * 1000 })
+    recent.registerExtractor('.note', (filePath) => [{ type: 'text', fileName: path.basename(filePath), page: 1 }])
+
+    await recent.extract(Buffer.from('hello'), { fileName: 'a.note' })
+
+    expect(await fs.readdir(root)).toEqual(['docsuite-work-recent'])
+  })
+})
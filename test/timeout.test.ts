@@ -0,0 +1,52 @@
+import path from 'path'
+import { DocSuite, ExtractionOptions, ExtractionResult } from '../src'
+
+describe('timeout', () => {
+  let docsuite: DocSuite
+  let signals: AbortSignal[]
+
+  beforeEach(() => {
+    signals = []
+    docsuite = new DocSuite()
+    // Ignores the signal and takes 2 s, like an extractor stuck in a library call
+    docsuite.registerExtractor('.note', async (filePath, options: ExtractionOptions) => {
+      signals.push(options.signal!)
+      await new Promise((resolve) => setTimeout(resolve, 2000))
+      return [{ type: 'text', fileName: path.basename(filePath), page: 1, contents: 'late' }]
+    })
+  })
+
+  it('returns a TIMEOUT result when the deadline passes, without waiting for the extractor', async () => {
+    const started = Date.now()
+    const results = await docsuite.extract(Buffer.from('x'), { fileName: 'slow.note', timeout: 100 })
+
+    expect(Date.now() - started).toBeLessThan(1000)
+    expect(results).toEqual([expect.objectContaining({ type: null, fileName: 'slow.note', code: 'TIMEOUT' })])
+    expect(signals[0].aborted).toBe(true)
+  })
+
+  it('ends a stream with a TIMEOUT result when the deadline passes', async () => {
+    const started = Date.now()
+    const results: ExtractionResult[] = []
+    for await (const result of docsuite.extractStream(Buffer.from('x'), { fileName: 'slow.note', timeout: 100 })) {
+      results.push(result)
+    }
+
+    expect(Date.now() - started).toBeLessThan(1000)
+    expect(results).toEqual([expect.objectContaining({ type: null, code: 'TIMEOUT' })])
+  })
+
+  it('throws the TIMEOUT as a DocSuiteError with throwOnError', async () => {
+    await expect(
+      docsuite.extract(Buffer.from('x'), { fileName: 'slow.note', timeout: 100, throwOnError: true })
+    ).rejects.toMatchObject({ code: 'TIMEOUT', fileName: 'slow.note' })
+  })
+
+  it('returns the results of an extraction that finishes in time', async () => {
+    docsuite.registerExtractor('.fast', (filePath) => [
+      { type: 'text', fileName: path.basename(filePath), page: 1, contents: 'done' }
+    ])
+    const results = await docsuite.extract(Buffer.from('x'), { fileName: 'a.fast', timeout: 1000 })
+    expect(results).toEqual([expect.objectContaining({ type: 'text', contents: 'done' })])
+  })
+})
@@ -0,0 +1,89 @@
+import * as XLSX from 'xlsx'
+import { DocSuite } from '../src'
+
+describe('xlsx', () => {
+  function workbook(): Buffer {
+    const wb = XLSX.utils.book_new()
+    const data = XLSX.utils.aoa_to_sheet([
+      ['Item', 'Amount'],
+      ['Paper', 2],
+      ['Ink', 3]
+    ])
+    // Formula with a stale cached value, as left by an application that did not recalculate
+    data.A4 = { t: 's', v: 'Total' }
+    data.B4 = { t: 'n', v: 0, f: 'SUM(B2:B3)' }
+    data['!ref'] = 'A1:B4'
+    XLSX.utils.book_append_sheet(wb, data, 'Data')
+
+    const merged = XLSX.utils.aoa_to_sheet([
+      ['Q1', null, 'Q2'],
+      [1, 2, 3]
+    ])
+    merged['!merges'] = [XLSX.utils.decode_range('A1:B1')]
+    XLSX.utils.book_append_sheet(wb, merged, 'Merged')
+
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([['secret']]), 'Hidden')
+    wb.Workbook = { Sheets: [{ Hidden: 0 }, { Hidden: 0 }, { Hidden: 1 }] }
+    return XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' })
+  }
+
+  const book = workbook()
+
+  it('returns one csv result per sheet with hidden sheets and merged ranges marked', async () => {
+    const results = await new DocSuite().extract(book, { fileName: 'book.xlsx' })
+    expect(results).toMatchObject([
+      { type: 'csv', page: 1, sheetName: 'Data', contents: 'Item,Amount\nPaper,2\nInk,3\nTotal,0' },
+      { type: 'csv', page: 2, sheetName: 'Merged', contents: 'Q1,,Q2\n1,2,3', merges: ['A1:B1'] },
+      { type: 'csv', page: 3, sheetName: 'Hidden', contents: 'secret', hidden: true }
+    ])
+    expect(results[0]).not.toHaveProperty('hidden')
+    expect(results[0]).not.toHaveProperty('merges')
+  })
+
+  it('recalculates formulas, fills merged ranges and leaves out hidden sheets', async () => {
+    const results = await new DocSuite().extract(book, {
+      fileName: 'book.xlsx',
+      xlsx: { recalculate: true, fillMerged: true, includeHidden: false }
+    })
+    expect(results.map((result) => result.contents)).toEqual([
+      'Item,Amount\nPaper,2\nInk,3\nTotal,5',
+      'Q1,Q1,Q2\n1,2,3'
+    ])
+  })
+
+  it('renders sheets as Markdown tables', async () => {
+    const [result] = await new DocSuite().extract(book, {
+      fileName: 'book.xlsx',
+      pages: '1',
+      xlsx: { format: 'markdown' }
+    })
+    expect(result).toMatchObject({ type: 'text', sheetName: 'Data' })
+    expect(result.contents).toBe('| Item | Amount |\n| --- | --- |\n| Paper | 2 |\n| Ink | 3 |\n| Total | 0 |')
+  })
+
+  it('renders sheets as row objects or as cells', async () => {
+    const [rows] = await new DocSuite().extract(book, { fileName: 'book.xlsx', pages: '1', xlsx: { format: 'json' } })
+    expect(rows.type).toBe('json')
+    expect(JSON.parse(rows.contents ?? '')).toEqual([
+      { Item: 'Paper', Amount: 2 },
+      { Item: 'Ink', Amount: 3 },
+      { Item: 'Total', Amount: 0 }
+    ])
+
+    const [cells] = await new DocSuite().extract(book, {
+      fileName: 'book.xlsx',
+      pages: '1',
+      xlsx: { format: 'cells', recalculate: true }
+    })
+    expect(JSON.parse(cells.contents ?? '')).toContainEqual({
+      address: 'B4',
+      row: 4,
+      column: 2,
+      type: 'n',
+      value: 5,
+      formatted: '5',
+      formula: 'SUM(B2:B3)',
+      numberFormat: 'General'
+    })
+  })
+})